@@ -1,24 +1,79 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { User, Message, ChatState, ReactionPayload, Attachment, DeletePayload } from './types.ts';
+import { User, Message, ChatState, ReactionPayload, Attachment, DeletePayload, EditPayload, RekeyEvent, KeyAnnouncement, TrustRecord, KeyChangeWarning, ConnectionStatus, RoomSummary, JoinOptions, TopologySnapshot, TypingPayload, ReceiptPayload, TransferState, AuditEntry, RoleChange, RoleAction, RoomRoles, JoinAccess, InviteGrant, TimerChange, TopicChange, RenameChange, BotConsent, BotActivation, BotConsentSummary, SessionStats, RoomTelemetry, PresencePayload, PresenceRecord, LinkPreview } from './types.ts';
 import { socket } from './services/socketService.ts';
-import { getGeminiResponse } from './services/geminiService.ts';
+import { KeyStore } from './services/keyStore.ts';
+import { TrustStore } from './services/trustStore.ts';
+import { MessageStore, RemovedMessage } from './services/messageStore.ts';
+import { Outbox } from './services/outbox.ts';
+import { BlobStore } from './services/blobStore.ts';
+import { FileTransfer } from './services/fileTransfer.ts';
+import { EventSigner } from './services/eventSigner.ts';
+import { AuditLog } from './services/auditLog.ts';
+import { RoleStore } from './services/roleStore.ts';
+import { RoomAccess, INVITE_TTL_MS } from './services/roomAccess.ts';
+import { CryptoService } from './services/cryptoService.ts';
+import { DisappearingTimers, isFromFuture } from './services/disappearingTimers.ts';
+import { RoomTopics } from './services/roomTopics.ts';
+import { BotConsents } from './services/botConsents.ts';
+import { Presence, HEARTBEAT_INTERVAL_MS, AWAY_AFTER_MS } from './services/presence.ts';
+import { SearchIndex } from './services/searchIndex.ts';
+import { Telemetry } from './services/telemetry.ts';
+import { SlashCommands, CommandContext } from './services/slashCommands.ts';
+import { BotRegistry, botSenderId } from './services/botRegistry.ts';
+import { echoBot } from './services/echoBot.ts';
+import { geminiBot } from './services/geminiService.ts';
 import Auth from './components/Auth.tsx';
 import ChatWindow from './components/ChatWindow.tsx';
 import Sidebar from './components/Sidebar.tsx';
 import NetworkVisualizer from './components/NetworkVisualizer.tsx';
+import { formatDuration } from './utils/formatters.ts';
+import { downloadJson } from './utils/download.ts';
 
 const STORAGE_KEY = 'ciphertalk_v2_storage';
+const OUTBOX_CHECK_INTERVAL_MS = 5000;
+const EXPIRY_CHECK_INTERVAL_MS = 1000;
+const EXPORT_PAGE_SIZE = 500;
+
+BotRegistry.register(echoBot);
+BotRegistry.register(geminiBot);
+
+// Notices about changes replayed from the roster are older than what's already on screen
+const withNotice = (messages: Message[], notice: Message) => {
+  if (messages.some(m => m.id === notice.id)) return messages;
+  const at = messages.findIndex(m => m.timestamp > notice.timestamp);
+  return at < 0 ? [...messages, notice] : [...messages.slice(0, at), notice, ...messages.slice(at)];
+};
 
 const App: React.FC = () => {
+  // Plaintext history left by older versions; moved into the encrypted store on first unlock
+  const legacyMessages = useRef<Message[]>([]);
+  const savedRooms = useRef<string[]>([]);
+  const persistedMessages = useRef<Map<string, Message>>(new Map());
+  // Messages we've already told their senders we read
+  const readReceiptsSent = useRef<Set<string>>(new Set());
+  // Messages scrolled into view while the tab was hidden, by room; reported once it's visible again
+  const pendingReads = useRef<Map<string, string>>(new Map());
+  const lastActivity = useRef(Date.now());
+  // Rooms this node has already tried to claim, so repeated host statuses don't claim twice
+  const ownerClaims = useRef<Set<string>>(new Set());
+
   const [state, setState] = useState<ChatState>(() => {
     try {
       const saved = localStorage.getItem(STORAGE_KEY);
       if (saved) {
+        // Identity lives in the keystore and history in the message store; both unlock on every launch
         const parsed = JSON.parse(saved);
+        legacyMessages.current = parsed.messages || [];
+        savedRooms.current = parsed.rooms || [];
         return {
-          ...parsed,
-          typingUsers: [],
-          connectionStatus: { status: 'disconnected', label: 'Reconnecting...' }
+          user: null,
+          activeRoom: parsed.activeRoom,
+          rooms: [],
+          messages: [],
+          typingUsers: {},
+          unreadCounts: {},
+          isAuthenticated: false,
+          connectionStatus: {}
         };
       }
     } catch (e) {
@@ -27,45 +82,287 @@ const App: React.FC = () => {
     
     return {
       user: null,
-      activeRoom: 'Global',
+      activeRoom: 'Lobby',
+      rooms: [],
       messages: [],
-      typingUsers: [],
+      typingUsers: {},
+      unreadCounts: {},
       isAuthenticated: false,
-      connectionStatus: { status: 'disconnected', label: 'Offline' }
+      connectionStatus: {}
     };
   });
 
   const [isBotEnabled, setIsBotEnabled] = useState(false);
   const [networkActivity, setNetworkActivity] = useState<'idle' | 'sending' | 'receiving'>('idle');
+  const [rekeyHistory, setRekeyHistory] = useState<{ [roomId: string]: RekeyEvent[] }>({});
+  const [peers, setPeers] = useState<{ [roomId: string]: { [userId: string]: KeyAnnouncement } }>({});
+  const [topology, setTopology] = useState<{ [roomId: string]: TopologySnapshot }>({});
+  const [trust, setTrust] = useState<{ [userId: string]: TrustRecord }>(() => TrustStore.all());
+  const [keyWarnings, setKeyWarnings] = useState<KeyChangeWarning[]>(() => TrustStore.warnings());
+  const [storedIdentity, setStoredIdentity] = useState<User | null | undefined>(undefined);
+  const [hasOlderMessages, setHasOlderMessages] = useState<{ [roomId: string]: boolean }>({});
+  const [retention, setRetention] = useState(0);
+  const [isVisible, setIsVisible] = useState(() => document.visibilityState === 'visible');
+  const [transfers, setTransfers] = useState<{ [fileId: string]: TransferState }>({});
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [roles, setRoles] = useState<{ [roomId: string]: RoomRoles }>({});
+  const [timers, setTimers] = useState<{ [roomId: string]: number }>({});
+  const [topics, setTopics] = useState<{ [roomId: string]: string }>({});
+  const [botConsents, setBotConsents] = useState<{ [roomId: string]: BotConsent[] }>({});
+  const [telemetry, setTelemetry] = useState<{ [roomId: string]: RoomTelemetry }>({});
+  const [presence, setPresence] = useState<{ [roomId: string]: { [userId: string]: PresenceRecord } }>({});
   const typingTimeouts = useRef<{ [key: string]: ReturnType<typeof setTimeout> }>({});
+  const botRequests = useRef<Map<string, AbortController>>(new Map());
 
   useEffect(() => {
     if (state.isAuthenticated) {
-      const { user, activeRoom, messages, isAuthenticated } = state;
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ activeRoom: state.activeRoom, rooms: state.rooms }));
+    }
+  }, [state.activeRoom, state.rooms, state.isAuthenticated]);
+
+  // Messages retention dropped from the store leave the search index and blob store with them, as expired ones do
+  const forgetPruned = async (pruned: RemovedMessage[]) => {
+    if (pruned.length === 0) return;
+    console.log(`[Retention] Pruned ${pruned.length} message(s)`);
+    SearchIndex.remove(pruned.map(p => p.id));
+    for (const { fileId } of pruned) {
+      if (fileId) await FileTransfer.discard(fileId);
+    }
+  };
+
+  // Messages are updated immutably, so a changed reference means the record needs rewriting
+  useEffect(() => {
+    if (!state.isAuthenticated) return;
+    // Bot answers still being written are stored once they're sent
+    const changed = state.messages.filter(m => persistedMessages.current.get(m.id) !== m && !m.botReply);
+    if (changed.length === 0) return;
+    changed.forEach(m => persistedMessages.current.set(m.id, m));
+    SearchIndex.update(changed);
+    MessageStore.put(changed).then(forgetPruned).catch(e => console.warn("Failed to persist messages:", e));
+  }, [state.messages, state.isAuthenticated]);
+
+  // Re-send whatever the Host hasn't acknowledged, backing off per message
+  useEffect(() => {
+    if (!state.isAuthenticated) return;
+    const timer = setInterval(async () => {
+      try {
+        const due = await Outbox.due();
+        if (due.length === 0) return;
+        const stored = new Map((await MessageStore.get(due.map(e => e.id))).map(m => [m.id, m]));
+        for (const entry of due) {
+          const msg = stored.get(entry.id);
+          if (!msg || msg.isDeleted) {
+            await Outbox.remove([entry.id]);
+            continue;
+          }
+          const { delivery, ...wire } = msg;
+          console.log(`[Outbox] Retrying ${entry.id} (attempt ${entry.attempts + 1})`);
+          socket.post(entry.roomId, 'message', wire);
+          await Outbox.markAttempt(entry);
+        }
+      } catch (e) {
+        console.warn("Outbox retry failed:", e);
+      }
+    }, OUTBOX_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [state.isAuthenticated]);
+
+  // Disappearing messages leave the screen, the message store and the blob store together
+  useEffect(() => {
+    if (!state.isAuthenticated) return;
+    const timer = setInterval(async () => {
+      const now = Date.now();
+      const isExpired = (m: Message) => !!m.expiresAt && m.expiresAt <= now;
+      SearchIndex.remove(messagesRef.current.filter(isExpired).map(m => m.id));
+      setState(prev => prev.messages.some(isExpired) ? { ...prev, messages: prev.messages.filter(m => !isExpired(m)) } : prev);
       try {
-         localStorage.setItem(STORAGE_KEY, JSON.stringify({
-           user, activeRoom, messages, isAuthenticated
-         }));
+        const expired = await MessageStore.purgeExpired(now);
+        if (expired.length === 0) return;
+        console.log(`[Expiry] Purged ${expired.length} message(s)`);
+        expired.forEach(e => persistedMessages.current.delete(e.id));
+        SearchIndex.remove(expired.map(e => e.id));
+        await Outbox.remove(expired.map(e => e.id));
+        for (const { fileId } of expired) {
+          if (fileId) await FileTransfer.discard(fileId);
+        }
       } catch (e) {
-         console.warn("Storage quota exceeded.");
+        console.warn("Failed to purge expired messages:", e);
       }
-    }
-  }, [state.user, state.activeRoom, state.messages, state.isAuthenticated]);
+    }, EXPIRY_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [state.isAuthenticated]);
+
+  useEffect(() => FileTransfer.subscribe(setTransfers), []);
+  useEffect(() => AuditLog.subscribe(setAuditLog), []);
+  useEffect(() => Presence.subscribe(setPresence), []);
+  useEffect(() => Telemetry.subscribe(setTelemetry), []);
 
   useEffect(() => {
-    if (state.isAuthenticated && state.activeRoom) {
-      socket.connect(state.activeRoom);
-    }
+    const markActive = () => { lastActivity.current = Date.now(); };
+    const events = ['pointerdown', 'pointermove', 'keydown'];
+    events.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+    return () => events.forEach(event => window.removeEventListener(event, markActive));
+  }, []);
+
+  // Heartbeats go to every connected room; they restart whenever visibility or connectivity changes so peers hear about it at once
+  const connectedRooms = state.rooms.filter(roomId => ['host', 'client'].includes(state.connectionStatus[roomId]?.status)).join('\n');
+  useEffect(() => {
+    if (!state.user || !connectedRooms) return;
+    const user = state.user;
+    const beat = () => {
+      const now = Date.now();
+      const away = !isVisible || now - lastActivity.current > AWAY_AFTER_MS;
+      connectedRooms.split('\n').forEach(roomId => {
+        const payload: PresencePayload = { roomId, userId: user.id, username: user.username, state: away ? 'away' : 'online', timestamp: now };
+        socket.post(roomId, 'presence', payload);
+      });
+      Presence.sweep(now);
+    };
+    beat();
+    const timer = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [state.user, connectedRooms, isVisible]);
+
+  // Control events are authorised against the messages they touch, which may have changed since the handlers were bound
+  const messagesRef = useRef<Message[]>(state.messages);
+  messagesRef.current = state.messages;
+  // Likewise the roster that heartbeats are checked against
+  const peersRef = useRef(peers);
+  peersRef.current = peers;
+
+  // Chunked attachments are fetched in the background as soon as their message shows up
+  useEffect(() => {
+    if (!state.user) return;
+    state.messages.forEach(m => {
+      if (m.attachment?.chunkCount && !m.isDeleted) FileTransfer.track(m.attachment, m.roomId, m.senderId === state.user!.id);
+    });
+  }, [state.messages, state.user]);
+
+  useEffect(() => {
+    const handleVisibility = () => setIsVisible(document.visibilityState === 'visible');
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, []);
+
+  // Messages count as read once they have been on screen in a visible tab
+  const flushReads = () => {
+    if (!state.user || document.visibilityState !== 'visible' || pendingReads.current.size === 0) return;
+    const byRoom: { [roomId: string]: string[] } = {};
+    pendingReads.current.forEach((roomId, id) => {
+      readReceiptsSent.current.add(id);
+      (byRoom[roomId] = byRoom[roomId] || []).push(id);
+    });
+    pendingReads.current.clear();
+    Object.entries(byRoom).forEach(([roomId, messageIds]) => {
+      const receipt: ReceiptPayload = { roomId, messageIds, userId: state.user!.id, kind: 'read' };
+      socket.emit(roomId, 'receipt', receipt);
+    });
+  };
+
+  useEffect(() => {
+    if (isVisible) flushReads();
+  }, [isVisible]);
+
+  const handleMessagesSeen = (ids: string[]) => {
+    ids.filter(id => !readReceiptsSent.current.has(id)).forEach(id => pendingReads.current.set(id, state.activeRoom));
+    flushReads();
+  };
+
+  useEffect(() => {
+    KeyStore.load()
+      .then(setStoredIdentity)
+      .catch(e => {
+        console.warn("Failed to open keystore:", e);
+        setStoredIdentity(null);
+      });
+  }, []);
+
+  useEffect(() => {
+    const handleRekey = (rekey: RekeyEvent, roomId: string) => {
+      setRekeyHistory(prev => ({ ...prev, [roomId]: [...(prev[roomId] || []), rekey] }));
+      if (rekey.reason !== 'join' || !rekey.username) return;
+      // Built here from the Host's rekey; nobody can send a system message to the room
+      const notice: Message = {
+        id: `join-${rekey.userId}-${rekey.epoch}`,
+        roomId,
+        senderId: 'system',
+        senderName: 'System',
+        content: `${rekey.username} has entered the encrypted channel.`,
+        timestamp: rekey.timestamp,
+        type: 'system'
+      };
+      setState(prev => prev.rooms.includes(roomId) ? { ...prev, messages: withNotice(prev.messages, notice) } : prev);
+    };
+    const handlePeerKey = (announcement: KeyAnnouncement, roomId: string) => {
+      const warning = TrustStore.observe(announcement);
+      if (warning) {
+        console.warn(`[Trust] Identity key changed for ${warning.username}`);
+        setKeyWarnings(prev => [...prev.filter(w => w.userId !== warning.userId), warning]);
+      } else {
+        setKeyWarnings(prev => prev.filter(w => w.userId !== announcement.userId));
+      }
+      setTrust(TrustStore.all());
+      setPeers(prev => ({ ...prev, [roomId]: { ...(prev[roomId] || {}), [announcement.userId]: announcement } }));
+    };
+    const handlePeerLeft = (userId: string, roomId: string) => {
+      Presence.depart(roomId, userId);
+      setPeers(prev => {
+        const { [userId]: _, ...rest } = prev[roomId] || {};
+        return { ...prev, [roomId]: rest };
+      });
+    };
+
+    const handleTopology = (snapshot: TopologySnapshot, roomId: string) => {
+      setTopology(prev => ({ ...prev, [roomId]: snapshot }));
+    };
+
+    // Heartbeats aren't signed, so only members the Host vouched for count, under the name they announced
+    const handlePresence = (payload: PresencePayload, roomId: string) => {
+      const peer = peersRef.current[roomId]?.[payload.userId];
+      if (payload.roomId === roomId && peer) Presence.observe({ ...payload, username: peer.username });
+    };
+
+    socket.on('rekey', handleRekey);
+    socket.on('peer_key', handlePeerKey);
+    socket.on('peer_left', handlePeerLeft);
+    socket.on('topology', handleTopology);
+    socket.on('presence', handlePresence);
+    socket.on('file_request', FileTransfer.handleRequest);
+    socket.on('file_chunk', FileTransfer.handleChunk);
+    return () => {
+      socket.off('rekey', handleRekey);
+      socket.off('peer_key', handlePeerKey);
+      socket.off('peer_left', handlePeerLeft);
+      socket.off('topology', handleTopology);
+      socket.off('presence', handlePresence);
+      socket.off('file_request', FileTransfer.handleRequest);
+      socket.off('file_chunk', FileTransfer.handleChunk);
+    };
   }, []);
 
+  // Verification applies to the key the peer is presenting in this room, pending or not
+  const handleSetVerified = (userId: string, verified: boolean) => {
+    setTrust({ ...TrustStore.setVerified(userId, verified, peers[state.activeRoom]?.[userId]) });
+    if (verified) setKeyWarnings(prev => prev.filter(w => w.userId !== userId));
+  };
+
+  const handleAcceptKey = (userId: string) => {
+    setTrust({ ...TrustStore.accept(userId) });
+    setKeyWarnings(prev => prev.filter(w => w.userId !== userId));
+  };
+
   const handleLogout = () => {
     localStorage.removeItem(STORAGE_KEY);
     window.location.reload();
   };
 
   useEffect(() => {
-    const handleMessage = (msg: Message) => {
-      if (msg.roomId !== state.activeRoom) return;
+    const handleMessage = (received: Message, roomId: string) => {
+      // System notices are only ever built locally; one arriving as a message is a forgery
+      if (received.roomId !== roomId || received.type === 'system') return;
+      const msg = DisappearingTimers.enforce(received);
+      // Late retries of messages whose time is already up
+      if (msg.expiresAt && msg.expiresAt <= Date.now()) return;
 
       if (msg.senderId !== state.user?.id) {
          setNetworkActivity('receiving');
@@ -73,16 +370,188 @@ const App: React.FC = () => {
       }
 
       setState(prev => {
-        const newTyping = prev.typingUsers.filter(u => u !== msg.senderName);
-        if (prev.messages.find(m => m.id === msg.id)) return { ...prev, typingUsers: newTyping };
-        return { ...prev, messages: [...prev.messages, msg], typingUsers: newTyping };
+        if (!prev.rooms.includes(roomId)) return prev;
+        const typingUsers = { ...prev.typingUsers, [roomId]: (prev.typingUsers[roomId] || []).filter(u => u !== msg.senderName) };
+        if (prev.messages.find(m => m.id === msg.id)) return { ...prev, typingUsers };
+        const isOwn = msg.senderId === prev.user?.id;
+        const isUnread = roomId !== prev.activeRoom && !isOwn;
+        // Our own messages wait in the outbox until the transport hands them to the network
+        const incoming: Message = isOwn ? { ...msg, delivery: { status: 'pending', readBy: [] } } : msg;
+        return {
+          ...prev,
+          messages: [...prev.messages, incoming],
+          typingUsers,
+          unreadCounts: isUnread ? { ...prev.unreadCounts, [roomId]: (prev.unreadCounts[roomId] || 0) + 1 } : prev.unreadCounts
+        };
+      });
+    };
+
+    // Signature checks are async; chaining keeps control events in arrival order
+    let controlQueue: Promise<void> = Promise.resolve();
+    const enqueue = (event: string, task: () => Promise<void>) => {
+      controlQueue = controlQueue.then(task).catch(err => console.error(`[Audit] Failed to check ${event}:`, err));
+    };
+    const whenSigned = <T extends { roomId: string; signature?: string }>(
+      event: string, signerOf: (payload: T) => string, apply: (payload: T, roomId: string) => void
+    ) => (payload: T, roomId: string) => {
+      // Payloads name their room; one that disagrees with the session it arrived on is dropped
+      if (payload.roomId !== roomId) return;
+      enqueue(event, async () => {
+        const signerId = signerOf(payload);
+        // Only the pinned key counts; one announced since stays unused until the user verifies or accepts it
+        const signerKey = signerId === state.user?.id
+          ? state.user.signingKey
+          : TrustStore.all()[signerId]?.signingKey;
+        if (await EventSigner.verify(event, payload, signerKey)) {
+          apply(payload, roomId);
+        } else {
+          AuditLog.record({ roomId, category: 'forged_event', summary: `Rejected ${event} with a bad or missing signature for ${signerId}`, data: payload });
+        }
+      });
+    };
+
+    // Role changes carry their own chain of keys back to the owner's claim, so RoleStore checks them
+    const handleRoleChange = (change: RoleChange, roomId: string) => {
+      if (change.roomId !== roomId) return;
+      enqueue('role_change', async () => {
+        const next = await RoleStore.apply(change);
+        if (!next) return;
+        setRoles(prev => ({ ...prev, [roomId]: next }));
+        socket.setRoles(roomId, next);
+        if (change.action === 'kick') socket.expel(roomId, change.targetId);
+
+        const notice: Message = {
+          id: `role-${change.action}-${change.targetId}-${change.timestamp}`,
+          roomId,
+          senderId: 'system',
+          senderName: 'System',
+          content: RoleStore.describe(change),
+          timestamp: change.timestamp,
+          type: 'system'
+        };
+        const me = state.user && { userId: state.user.id, publicKey: state.user.publicKey, signingKey: state.user.signingKey };
+        const removed = !!me && (change.action === 'kick' ? change.targetId === me.userId : change.action === 'ban' && RoleStore.isBanned(next, me));
+        if (removed) socket.disconnect(roomId);
+        setState(prev => {
+          const messages = withNotice(prev.messages, notice);
+          if (messages === prev.messages && !removed) return prev;
+          const connectionStatus = removed
+            ? { ...prev.connectionStatus, [roomId]: { status: 'error' as const, label: change.action === 'ban' ? 'Banned From Room' : 'Removed From Room' } }
+            : prev.connectionStatus;
+          return { ...prev, messages, connectionStatus };
+        });
       });
     };
 
-    const handleReactionEvent = (payload: ReactionPayload) => {
+    // Any member may change the timer; it applies to messages sent from then on
+    const handleTimerEvent = whenSigned<TimerChange>('timer', p => p.userId, (change, roomId) => {
+      if (!DisappearingTimers.apply(change)) return;
+      setTimers(prev => ({ ...prev, [roomId]: change.ttl }));
+      socket.setTimer(roomId, change);
+      const notice: Message = {
+        id: `timer-${change.userId}-${change.timestamp}`,
+        roomId,
+        senderId: 'system',
+        senderName: 'System',
+        content: DisappearingTimers.describe(change),
+        timestamp: change.timestamp,
+        type: 'system'
+      };
+      setState(prev => ({ ...prev, messages: withNotice(prev.messages, notice) }));
+    });
+
+    // Topics work like timers: any member may set one and the latest signed change wins
+    const handleTopicEvent = whenSigned<TopicChange>('topic', p => p.userId, (change, roomId) => {
+      if (!RoomTopics.apply(change)) return;
+      setTopics(prev => ({ ...prev, [roomId]: change.topic }));
+      socket.setTopic(roomId, change);
+      const notice: Message = {
+        id: `topic-${change.userId}-${change.timestamp}`,
+        roomId,
+        senderId: 'system',
+        senderName: 'System',
+        content: RoomTopics.describe(change),
+        timestamp: change.timestamp,
+        type: 'system'
+      };
+      setState(prev => ({ ...prev, messages: withNotice(prev.messages, notice) }));
+    });
+
+    // Only the member themselves may rename; the old name is the one we know them by, except for our own
+    const handleRenameEvent = whenSigned<RenameChange>('rename', p => p.userId, (change, roomId) => {
+      if (typeof change.username !== 'string' || !change.username.trim() || isFromFuture(change.timestamp)) return;
+      const previous = change.userId === state.user?.id ? change.previous : peersRef.current[roomId]?.[change.userId]?.username;
+      if (!previous) return;
+      const notice: Message = {
+        id: `nick-${change.userId}-${change.timestamp}`,
+        roomId,
+        senderId: 'system',
+        senderName: 'System',
+        content: `${previous} is now known as ${change.username}.`,
+        timestamp: change.timestamp,
+        type: 'system'
+      };
+      setState(prev => ({ ...prev, messages: withNotice(prev.messages, notice) }));
+      setPeers(prev => {
+        const peer = prev[roomId]?.[change.userId];
+        return peer ? { ...prev, [roomId]: { ...prev[roomId], [change.userId]: { ...peer, username: change.username } } } : prev;
+      });
+    });
+
+    // Each member speaks only for themselves, so the signer must be the member named
+    const handleBotConsentEvent = whenSigned<BotConsent>('bot_consent', p => p.userId, (consent, roomId) => {
+      if (!BotConsents.apply(consent)) return;
+      setBotConsents(prev => ({ ...prev, [roomId]: BotConsents.all(roomId) }));
+      socket.setBotConsent(roomId, consent);
+      const notice: Message = {
+        id: `consent-${consent.userId}-${consent.timestamp}`,
+        roomId,
+        senderId: 'system',
+        senderName: 'System',
+        content: BotConsents.describe(consent),
+        timestamp: consent.timestamp,
+        type: 'system'
+      };
+      setState(prev => ({ ...prev, messages: withNotice(prev.messages, notice) }));
+    });
+
+    // Whoever turns bots on tells the room, signed, so the notice can't be faked or quietly skipped
+    const handleBotActivationEvent = whenSigned<BotActivation>('bot_activation', p => p.userId, (activation, roomId) => {
+      const notice: Message = {
+        id: `bots-${activation.userId}-${activation.timestamp}`,
+        roomId,
+        senderId: 'system',
+        senderName: 'System',
+        content: BotConsents.describeActivation(activation),
+        timestamp: activation.timestamp,
+        type: 'system'
+      };
+      setState(prev => ({ ...prev, messages: withNotice(prev.messages, notice) }));
+    });
+
+    // Members who joined on an invite are handed the room credential for next time
+    const handleCredential = (credential: string, roomId: string) => {
+      RoomAccess.setCredential(roomId, credential).catch(e => console.warn("Failed to store room credential:", e));
+    };
+
+    const handleRefused = (announcement: KeyAnnouncement, roomId: string) => {
+      AuditLog.record({ roomId, category: 'refused_member', summary: `Refused banned member ${announcement.username}`, data: announcement });
+    };
+
+    // Only the author of a message may delete or edit it
+    const authoredBy = (event: string, roomId: string, ids: string[], senderId: string, payload: any) => {
+      const targets = messagesRef.current.filter(m => m.roomId === roomId && ids.includes(m.id));
+      const foreign = targets.filter(m => m.senderId !== senderId);
+      if (foreign.length > 0) {
+        AuditLog.record({ roomId, category: 'unauthorized_event', summary: `Rejected ${event} by ${senderId} of ${foreign.length} message(s) they did not send`, data: payload });
+      }
+      return targets.filter(m => m.senderId === senderId).map(m => m.id);
+    };
+
+    const handleReactionEvent = whenSigned<ReactionPayload>('reaction', p => p.userId, (payload, roomId) => {
       setState(prev => {
         const updatedMessages = prev.messages.map(msg => {
-          if (msg.id !== payload.messageId) return msg;
+          if (msg.id !== payload.messageId || msg.roomId !== roomId) return msg;
           const reactions = { ...(msg.reactions || {}) };
           const users = reactions[payload.emoji] || [];
           
@@ -96,175 +565,709 @@ const App: React.FC = () => {
         });
         return { ...prev, messages: updatedMessages };
       });
-    };
+    });
 
-    const handleDeleteEvent = (payload: DeletePayload) => {
+    const handleDeleteEvent = whenSigned<DeletePayload>('delete', p => p.senderId, (payload, roomId) => {
+      const ids = authoredBy('delete', roomId, payload.messageIds, payload.senderId, payload);
+      if (ids.length === 0) return;
       setState(prev => ({
         ...prev,
         messages: prev.messages.map(msg => 
-          payload.messageIds.includes(msg.id) ? { ...msg, isDeleted: true } : msg
+          msg.roomId === roomId && ids.includes(msg.id) ? { ...msg, isDeleted: true } : msg
         )
       }));
-    };
+    });
+
+    // Edits may arrive out of order or twice; every peer converges on the highest revision
+    const handleEditEvent = whenSigned<EditPayload>('edit', p => p.senderId, (payload, roomId) => {
+      if (authoredBy('edit', roomId, [payload.messageId], payload.senderId, payload).length === 0) return;
+      setState(prev => ({
+        ...prev,
+        messages: prev.messages.map(msg => {
+          if (msg.id !== payload.messageId || msg.roomId !== roomId || msg.isDeleted) return msg;
+          const current = { content: msg.content, revision: msg.revision || 0, timestamp: msg.editedAt || msg.timestamp };
+          const incoming = { content: payload.content, revision: payload.revision, timestamp: payload.timestamp };
+          const all = [...(msg.history || []), current, incoming];
+          if (all.some((r, i) => i < all.length - 1 && r.revision === incoming.revision && r.timestamp === incoming.timestamp)) return msg;
+          all.sort((a, b) => a.revision - b.revision || a.timestamp - b.timestamp);
+          const latest = all[all.length - 1];
+          return {
+            ...msg,
+            content: latest.content,
+            revision: latest.revision,
+            editedAt: latest.timestamp,
+            history: all.slice(0, -1)
+          };
+        })
+      }));
+    });
 
-    const handleTypingEvent = ({ username, isTyping }: { username: string, isTyping: boolean }) => {
-      if (username === state.user?.username) return;
+    const handleTypingEvent = ({ roomId: payloadRoom, username, isTyping }: TypingPayload, roomId: string) => {
+      if (payloadRoom !== roomId || username === state.user?.username) return;
+      const timeoutKey = `${roomId}:${username}`;
 
       setState(prev => {
-        const others = prev.typingUsers.filter(u => u !== username);
+        const others = (prev.typingUsers[roomId] || []).filter(u => u !== username);
         if (isTyping) {
-            if (typingTimeouts.current[username]) clearTimeout(typingTimeouts.current[username]);
-            typingTimeouts.current[username] = setTimeout(() => {
-                setState(p => ({ ...p, typingUsers: p.typingUsers.filter(u => u !== username) }));
+            if (typingTimeouts.current[timeoutKey]) clearTimeout(typingTimeouts.current[timeoutKey]);
+            typingTimeouts.current[timeoutKey] = setTimeout(() => {
+                setState(p => ({ ...p, typingUsers: { ...p.typingUsers, [roomId]: (p.typingUsers[roomId] || []).filter(u => u !== username) } }));
             }, 3000);
-            return { ...prev, typingUsers: [...others, username] };
+            return { ...prev, typingUsers: { ...prev.typingUsers, [roomId]: [...others, username] } };
         } else {
-            return { ...prev, typingUsers: others };
+            return { ...prev, typingUsers: { ...prev.typingUsers, [roomId]: others } };
         }
       });
     };
 
-    const handleStatus = (status: any) => {
-      setState(prev => ({ ...prev, connectionStatus: status }));
+    const handleSent = (messageId: string, roomId: string) => {
+      setState(prev => ({
+        ...prev,
+        messages: prev.messages.map(msg =>
+          msg.id === messageId && msg.roomId === roomId && msg.delivery?.status === 'pending'
+            ? { ...msg, delivery: { ...msg.delivery, status: 'sent' } }
+            : msg
+        )
+      }));
+    };
+
+    const handleReceipt = (payload: ReceiptPayload, roomId: string) => {
+      if (payload.roomId !== roomId) return;
+      setState(prev => ({
+        ...prev,
+        messages: prev.messages.map(msg => {
+          if (!msg.delivery || msg.roomId !== roomId || !payload.messageIds.includes(msg.id)) return msg;
+          // Having been read implies having been delivered
+          const readBy = payload.kind === 'read' && !msg.delivery.readBy.includes(payload.userId)
+            ? [...msg.delivery.readBy, payload.userId]
+            : msg.delivery.readBy;
+          return { ...msg, delivery: { status: 'delivered', readBy } };
+        })
+      }));
+      Outbox.remove(payload.messageIds).catch(e => console.warn("Failed to update outbox:", e));
+    };
+
+    const handleStatus = (status: ConnectionStatus, roomId: string) => {
+      if (status.status === 'host' || status.status === 'client') FileTransfer.resume(roomId);
+      // The first node to host a room with no owner claims it
+      if (status.status === 'host' && state.user && !RoleStore.get(roomId).ownerId && !ownerClaims.current.has(roomId)) {
+        ownerClaims.current.add(roomId);
+        issueRoleChange(roomId, 'claim', state.user.id, state.user.username, { targetKey: state.user.signingKey });
+      }
+      setState(prev => ({ ...prev, connectionStatus: { ...prev.connectionStatus, [roomId]: status } }));
     };
 
     socket.on('message', handleMessage);
     socket.on('reaction', handleReactionEvent);
+    socket.on('edit', handleEditEvent);
     socket.on('delete', handleDeleteEvent);
     socket.on('typing', handleTypingEvent);
     socket.on('status', handleStatus);
+    socket.on('sent', handleSent);
+    socket.on('receipt', handleReceipt);
+    socket.on('role_change', handleRoleChange);
+    socket.on('timer', handleTimerEvent);
+    socket.on('topic', handleTopicEvent);
+    socket.on('rename', handleRenameEvent);
+    socket.on('bot_consent', handleBotConsentEvent);
+    socket.on('bot_activation', handleBotActivationEvent);
+    socket.on('refused', handleRefused);
+    socket.on('credential', handleCredential);
 
     return () => {
       socket.off('message', handleMessage);
       socket.off('reaction', handleReactionEvent);
+      socket.off('edit', handleEditEvent);
       socket.off('delete', handleDeleteEvent);
       socket.off('typing', handleTypingEvent);
       socket.off('status', handleStatus);
+      socket.off('sent', handleSent);
+      socket.off('receipt', handleReceipt);
+      socket.off('role_change', handleRoleChange);
+      socket.off('timer', handleTimerEvent);
+      socket.off('topic', handleTopicEvent);
+      socket.off('rename', handleRenameEvent);
+      socket.off('bot_consent', handleBotConsentEvent);
+      socket.off('bot_activation', handleBotActivationEvent);
+      socket.off('refused', handleRefused);
+      socket.off('credential', handleCredential);
     };
-  }, [state.activeRoom, state.user]);
-
-  const handleJoin = (username: string, roomId: string) => {
-    socket.connect(roomId);
-    const newUser: User = {
-      id: `u-${Math.random().toString(36).substr(2, 9)}`,
-      username,
-      avatar: `https://api.dicebear.com/7.x/avataaars/svg?seed=${username}`,
-      publicKey: `PUB-${Math.random().toString(36).substr(2, 16).toUpperCase()}`,
-    };
+  }, [state.user]);
+
+  const joinRoom = async (roomId: string, inviteToken?: string) => {
+    const history = await MessageStore.loadPage(roomId);
+    history.messages.forEach(m => {
+      persistedMessages.current.set(m.id, m);
+      readReceiptsSent.current.add(m.id);
+    });
+    setHasOlderMessages(prev => ({ ...prev, [roomId]: history.hasMore }));
+    SearchIndex.indexRoom(roomId).catch(e => console.warn("Failed to index history:", e));
+
+    const roomRoles = RoleStore.get(roomId);
+    setRoles(prev => ({ ...prev, [roomId]: roomRoles }));
+    socket.connect(roomId, { credential: await RoomAccess.getCredential(roomId), inviteToken });
+    socket.setRoles(roomId, roomRoles);
+    const timer = DisappearingTimers.get(roomId);
+    setTimers(prev => ({ ...prev, [roomId]: timer?.ttl || 0 }));
+    if (timer) socket.setTimer(roomId, timer);
+    const topic = RoomTopics.get(roomId);
+    setTopics(prev => ({ ...prev, [roomId]: topic?.topic || '' }));
+    if (topic) socket.setTopic(roomId, topic);
+    setBotConsents(prev => ({ ...prev, [roomId]: BotConsents.all(roomId) }));
+    BotConsents.all(roomId).forEach(consent => socket.setBotConsent(roomId, consent));
+
+    setState(prev => {
+      const known = new Set(prev.messages.map(m => m.id));
+      return {
+        ...prev,
+        rooms: prev.rooms.includes(roomId) ? prev.rooms : [...prev.rooms, roomId],
+        messages: [...prev.messages, ...history.messages.filter(m => !known.has(m.id))],
+        connectionStatus: { ...prev.connectionStatus, [roomId]: { status: 'connecting', label: 'Initializing...' } }
+      };
+    });
+  };
+
+  const handleJoin = async (username: string, roomId: string, passphrase: string, options: JoinOptions, access: JoinAccess = {}) => {
+    const { user: newUser, keyPair, storageKey, signingKey } = storedIdentity
+      ? await KeyStore.unlock(passphrase)
+      : await KeyStore.create(username, passphrase);
+
+    MessageStore.unlock(storageKey);
+    BlobStore.unlock(storageKey);
+    EventSigner.setKey(signingKey);
+    RoomAccess.unlock(storageKey);
+    if (access.password) await RoomAccess.setCredential(roomId, await CryptoService.deriveRoomCredential(access.password, roomId));
+    if (legacyMessages.current.length > 0) {
+      await MessageStore.put(legacyMessages.current);
+      legacyMessages.current = [];
+    }
+    setRetention(MessageStore.getRetention(roomId));
+    socket.setIdentity(newUser, keyPair);
+    socket.configure(options);
 
     setState(prev => ({
       ...prev,
       user: newUser,
       activeRoom: roomId,
-      isAuthenticated: true,
-      connectionStatus: { status: 'connecting', label: 'Initializing...' }
+      isAuthenticated: true
     }));
 
-    const joinMsg: Message = {
-      id: `sys-${Date.now()}`,
-      roomId: roomId,
+    // Rejoin every room from the previous session alongside the requested one
+    for (const room of new Set([roomId, ...savedRooms.current])) {
+      await joinRoom(room, room === roomId ? access.inviteToken : undefined);
+    }
+  };
+
+  const handleSwitchRoom = (roomId: string) => {
+    setRetention(MessageStore.getRetention(roomId));
+    setState(prev => ({
+      ...prev,
+      activeRoom: roomId,
+      unreadCounts: { ...prev.unreadCounts, [roomId]: 0 }
+    }));
+  };
+
+  const handleJoinRoom = async (roomId: string, access: JoinAccess = {}) => {
+    if (!state.user) return;
+    if (access.password) await RoomAccess.setCredential(roomId, await CryptoService.deriveRoomCredential(access.password, roomId));
+    // A room whose session ended, e.g. after a removal or a refused password, stays listed and can be rejoined from here
+    if (!state.rooms.includes(roomId) || state.connectionStatus[roomId]?.status === 'error') {
+      socket.disconnect(roomId);
+      await joinRoom(roomId, access.inviteToken);
+      if (isBotEnabled) announceBots(roomId, true).catch(e => console.warn("[Bots] Failed to announce:", e));
+    }
+    handleSwitchRoom(roomId);
+  };
+
+  const handleCreateInvite = async (): Promise<string> => {
+    if (!state.user) return '';
+    const token = CryptoService.randomToken();
+    const grant: InviteGrant = {
+      tokenHash: await CryptoService.digest(new TextEncoder().encode(token)),
+      expiresAt: Date.now() + INVITE_TTL_MS,
+      issuedBy: state.user.id
+    };
+    socket.issueInvite(state.activeRoom, grant);
+    return RoomAccess.inviteLink({ roomId: state.activeRoom, token });
+  };
+
+  const handleLeaveRoom = (roomId: string) => {
+    if (state.rooms.length <= 1) return;
+    socket.disconnect(roomId);
+    const remaining = state.rooms.filter(r => r !== roomId);
+    if (roomId === state.activeRoom) setRetention(MessageStore.getRetention(remaining[0]));
+    setState(prev => {
+      const { [roomId]: _, ...connectionStatus } = prev.connectionStatus;
+      return {
+        ...prev,
+        rooms: remaining,
+        activeRoom: prev.activeRoom === roomId ? remaining[0] : prev.activeRoom,
+        messages: prev.messages.filter(m => m.roomId !== roomId),
+        connectionStatus
+      };
+    });
+    setRekeyHistory(prev => ({ ...prev, [roomId]: [] }));
+    setPeers(prev => ({ ...prev, [roomId]: {} }));
+    setTopology(prev => {
+      const { [roomId]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // Shown to this user only; never sent or stored
+  const addNotice = (roomId: string, content: string) => {
+    const notice: Message = {
+      id: `sys-local-${Date.now()}-${Math.random().toString(36).substr(2, 4)}`,
+      roomId,
       senderId: 'system',
       senderName: 'System',
-      content: `${username} has entered the encrypted channel.`,
+      content,
       timestamp: Date.now(),
       type: 'system'
     };
-    socket.emit('message', joinMsg);
+    persistedMessages.current.set(notice.id, notice);
+    setState(prev => ({ ...prev, messages: [...prev.messages, notice] }));
+  };
+
+  // Names of everyone connected to the room, us included, who hasn't allowed external bots
+  const missingBotConsent = (roomId: string) => {
+    if (!state.user) return [];
+    const members = [state.user.id, ...Object.keys(peers[roomId] || {})];
+    return BotConsents.missing(roomId, members).map(id => id === state.user!.id ? 'you' : peers[roomId]?.[id]?.username || id);
   };
 
-  const handleSendMessage = async (content: string, attachment?: Attachment) => {
+  const handleSendMessage = async (content: string, attachment?: Attachment, replyTo?: string, linkPreview?: LinkPreview, emote?: boolean) => {
     if (!state.user) return;
+    // Replies to replies stay in the thread of the message that started it
+    const parent = replyTo ? state.messages.find(m => m.id === replyTo) : undefined;
     
     // Trigger Network Animation
     setNetworkActivity('sending');
     setTimeout(() => setNetworkActivity('idle'), 2000);
 
+    const timestamp = Date.now();
+    const ttl = DisappearingTimers.ttl(state.activeRoom);
     const msg: Message = {
-      id: `m-${Date.now()}-${Math.random().toString(36).substr(2, 4)}`,
+      id: `m-${timestamp}-${Math.random().toString(36).substr(2, 4)}`,
       roomId: state.activeRoom,
       senderId: state.user.id,
       senderName: state.user.username,
       content,
-      timestamp: Date.now(),
+      timestamp,
       type: 'text',
       reactions: {},
-      attachment
+      attachment,
+      replyTo,
+      threadRoot: replyTo ? parent?.threadRoot || replyTo : undefined,
+      expiresAt: ttl ? timestamp + ttl : undefined,
+      linkPreview,
+      emote
     };
-    socket.emit('message', msg);
-
-    if (isBotEnabled && !attachment) {
-      const response = await getGeminiResponse(content);
-      if (response) {
-        const botMsg: Message = {
-          id: `bot-${Date.now()}`,
-          roomId: state.activeRoom,
-          senderId: 'bot',
-          senderName: 'CipherBot',
-          content: response,
-          timestamp: Date.now(),
-          type: 'text',
-          reactions: {}
+    socket.emit(state.activeRoom, 'message', msg);
+    Outbox.add(msg.id, msg.roomId).catch(e => console.warn("Failed to queue message:", e));
+
+    if (isBotEnabled && !attachment && !emote) {
+      const missing = missingBotConsent(msg.roomId);
+      const result = BotRegistry.dispatch(msg, missing.length === 0);
+      if (!result) return;
+      if ('needsConsent' in result) {
+        addNotice(msg.roomId, `${result.bot.name} sends messages outside this room, so everyone here must allow external bots first. Still waiting on: ${missing.join(', ')}.`);
+        return;
+      }
+      if ('retryAfterMs' in result) {
+        addNotice(msg.roomId, `${result.bot.name} is busy. Try again in ${formatDuration(result.retryAfterMs)}.`);
+        return;
+      }
+      // The answer streams into a local bubble and goes to the room once it's complete
+      const placeholder: Message = {
+        id: `bot-${Date.now()}`,
+        roomId: msg.roomId,
+        senderId: botSenderId(result.bot),
+        senderName: result.bot.name,
+        content: '',
+        timestamp: Date.now(),
+        type: 'text',
+        reactions: {},
+        botReply: { status: 'streaming' }
+      };
+      const controller = new AbortController();
+      botRequests.current.set(placeholder.id, controller);
+      const replace = (update: (m: Message) => Message) =>
+        setState(prev => ({ ...prev, messages: prev.messages.map(m => m.id === placeholder.id ? update(m) : m) }));
+      setState(prev => ({ ...prev, messages: [...prev.messages, placeholder] }));
+      try {
+        const reply = await result.run([...state.messages, msg], text => replace(m => ({ ...m, content: text })), controller.signal);
+        if (controller.signal.aborted) {
+          replace(m => ({ ...m, botReply: { status: 'cancelled' } }));
+          return;
+        }
+        const { botReply, ...rest } = placeholder;
+        const final: Message = {
+          ...rest,
+          content: result.standInFor ? `${reply}\n\n_${result.standInFor.name} is unavailable, so ${result.bot.name} answered instead._` : reply,
+          expiresAt: ttl ? placeholder.timestamp + ttl : undefined
         };
-        socket.emit('message', botMsg);
+        replace(() => final);
+        socket.emit(msg.roomId, 'message', final);
+      } catch (err) {
+        console.warn(`[Bots] ${result.bot.name} failed:`, err);
+        replace(m => ({
+          ...m,
+          botReply: controller.signal.aborted ? { status: 'cancelled' } : { status: 'error', error: err instanceof Error ? err.message : String(err) }
+        }));
+      } finally {
+        botRequests.current.delete(placeholder.id);
       }
     }
   };
 
-  const handleDeleteMessages = (ids: string[]) => {
-    const payload: DeletePayload = { messageIds: ids };
-    socket.emit('delete', payload);
+  const handleCancelBotReply = (id: string) => {
+    botRequests.current.get(id)?.abort();
+  };
+
+  // Failed and stopped answers were never sent, so dismissing one only touches this screen
+  const handleDismissBotReply = (id: string) => {
+    setState(prev => ({ ...prev, messages: prev.messages.filter(m => m.id !== id || !m.botReply) }));
   };
 
-  const handleAddReaction = (messageId: string, emoji: string) => {
+  const handleSendFile = async (file: File) => {
+    const attachment = await FileTransfer.upload(file, state.activeRoom);
+    await handleSendMessage("", attachment);
+  };
+
+  const handleDeleteMessages = async (ids: string[]) => {
     if (!state.user) return;
-    socket.emit('reaction', { messageId, emoji, userId: state.user.id });
+    const own = state.messages.filter(m => ids.includes(m.id) && m.senderId === state.user!.id).map(m => m.id);
+    if (own.length === 0) return;
+    const payload: DeletePayload = { roomId: state.activeRoom, messageIds: own, senderId: state.user.id };
+    socket.emit(state.activeRoom, 'delete', await EventSigner.sign('delete', payload));
+  };
+
+  const handleEditMessage = async (messageId: string, content: string) => {
+    const msg = state.messages.find(m => m.id === messageId);
+    if (!state.user || !msg || msg.senderId !== state.user.id || msg.isDeleted || content === msg.content) return;
+    const payload: EditPayload = {
+      roomId: msg.roomId,
+      messageId,
+      senderId: state.user.id,
+      content,
+      revision: (msg.revision || 0) + 1,
+      timestamp: Date.now()
+    };
+    socket.emit(msg.roomId, 'edit', await EventSigner.sign('edit', payload));
+  };
+
+  const issueRoleChange = async (roomId: string, action: RoleAction, targetId: string, targetName: string, keys: Pick<RoleChange, 'targetKey' | 'targetKeys'> = {}) => {
+    if (!state.user) return;
+    const change: RoleChange = { roomId, action, actorId: state.user.id, targetId, targetName, ...keys, timestamp: Date.now() };
+    socket.emit(roomId, 'role_change', await EventSigner.sign('role_change', change));
+  };
+
+  const handleRoleAction = (action: RoleAction, userId: string) => {
+    const roomId = state.activeRoom;
+    const peer = peers[roomId]?.[userId];
+    // Banned users are usually gone; their name comes from the ban itself
+    const targetName = peer?.username || roles[roomId]?.log.find(c => c.targetId === userId)?.targetName || userId;
+    const record = TrustStore.all()[userId];
+    if (action === 'promote') return issueRoleChange(roomId, action, userId, targetName, { targetKey: record?.signingKey });
+    // A ban names every key we have on record for them, pinned or pending; each peer checks that against its own
+    const targetKeys = action === 'ban' ? TrustStore.keysOf(record) : undefined;
+    issueRoleChange(roomId, action, userId, targetName, { targetKeys });
+  };
+
+  const handleAddReaction = async (messageId: string, emoji: string) => {
+    if (!state.user) return;
+    const payload: ReactionPayload = { roomId: state.activeRoom, messageId, emoji, userId: state.user.id };
+    socket.emit(state.activeRoom, 'reaction', await EventSigner.sign('reaction', payload));
   };
 
   const handleTyping = (isTyping: boolean) => {
     if (!state.user) return;
-    socket.emit('typing', { username: state.user.username, isTyping });
+    const payload: TypingPayload = { roomId: state.activeRoom, username: state.user.username, isTyping };
+    socket.emit(state.activeRoom, 'typing', payload);
+  };
+
+  const handleLoadOlder = async () => {
+    const roomId = state.activeRoom;
+    const oldest = state.messages.find(m => m.roomId === roomId);
+    const page = await MessageStore.loadPage(roomId, oldest ? oldest.timestamp : Infinity);
+    page.messages.forEach(m => persistedMessages.current.set(m.id, m));
+    setHasOlderMessages(prev => ({ ...prev, [roomId]: page.hasMore }));
+    setState(prev => {
+      const known = new Set(prev.messages.map(m => m.id));
+      return { ...prev, messages: [...page.messages.filter(m => !known.has(m.id)), ...prev.messages] };
+    });
+  };
+
+  // Loads older pages until the timeline reaches back to `timestamp`, e.g. for a search result
+  const handleRevealMessage = async (timestamp: number) => {
+    const roomId = state.activeRoom;
+    const loaded = state.messages.filter(m => m.roomId === roomId);
+    let oldest = loaded.length > 0 ? loaded[0].timestamp : Infinity;
+    const older: Message[] = [];
+    let hasMore = true;
+    while (hasMore && oldest > timestamp) {
+      const page = await MessageStore.loadPage(roomId, oldest);
+      if (page.messages.length === 0) break;
+      older.unshift(...page.messages);
+      oldest = page.messages[0].timestamp;
+      hasMore = page.hasMore;
+    }
+    older.forEach(m => persistedMessages.current.set(m.id, m));
+    setHasOlderMessages(prev => ({ ...prev, [roomId]: hasMore }));
+    setState(prev => {
+      const known = new Set(prev.messages.map(m => m.id));
+      return { ...prev, messages: [...older.filter(m => !known.has(m.id)), ...prev.messages] };
+    });
+  };
+
+  const handleSetRetention = (limit: number) => {
+    setRetention(limit);
+    MessageStore.setRetention(state.activeRoom, limit).then(forgetPruned).catch(e => console.warn("Failed to apply retention:", e));
+  };
+
+  const handleSetTimer = async (ttl: number) => {
+    if (!state.user || ttl === DisappearingTimers.ttl(state.activeRoom)) return;
+    const change: TimerChange = { roomId: state.activeRoom, ttl, userId: state.user.id, username: state.user.username, timestamp: Date.now() };
+    socket.emit(state.activeRoom, 'timer', await EventSigner.sign('timer', change));
+  };
+
+  const handleSetTopic = async (topic: string) => {
+    if (!state.user || topic === RoomTopics.topic(state.activeRoom)) return;
+    const change: TopicChange = { roomId: state.activeRoom, topic, userId: state.user.id, username: state.user.username, timestamp: Date.now() };
+    socket.emit(state.activeRoom, 'topic', await EventSigner.sign('topic', change));
+  };
+
+  const handleSetBotConsent = async (granted: boolean) => {
+    if (!state.user || granted === BotConsents.granted(state.activeRoom, state.user.id)) return;
+    const consent: BotConsent = { roomId: state.activeRoom, userId: state.user.id, username: state.user.username, granted, timestamp: Date.now() };
+    socket.emit(state.activeRoom, 'bot_consent', await EventSigner.sign('bot_consent', consent));
+  };
+
+  const announceBots = async (roomId: string, enabled: boolean) => {
+    if (!state.user) return;
+    const activation: BotActivation = {
+      roomId,
+      userId: state.user.id,
+      username: state.user.username,
+      enabled,
+      external: BotRegistry.list().filter(bot => bot.external).map(bot => bot.name),
+      timestamp: Date.now()
+    };
+    socket.emit(roomId, 'bot_activation', await EventSigner.sign('bot_activation', activation));
+  };
+
+  // Bots answer in every joined room, so every one of them hears about it
+  const handleSetBotsEnabled = (enabled: boolean) => {
+    if (enabled === isBotEnabled) return;
+    setIsBotEnabled(enabled);
+    state.rooms.forEach(roomId => announceBots(roomId, enabled).catch(e => console.warn("[Bots] Failed to announce:", e)));
+  };
+
+  const handleSetNick = async (username: string) => {
+    if (!state.user || username === state.user.username) return;
+    const previous = state.user.username;
+    const user = await KeyStore.rename(username);
+    socket.rename(user);
+    setState(prev => ({ ...prev, user }));
+    setStoredIdentity(user);
+    for (const roomId of state.rooms) {
+      const change: RenameChange = { roomId, userId: user.id, previous, username, timestamp: Date.now() };
+      socket.emit(roomId, 'rename', await EventSigner.sign('rename', change));
+    }
+  };
+
+  // Hides what's loaded; the stored history can be brought back with "load older"
+  const handleClearView = () => {
+    const roomId = state.activeRoom;
+    setHasOlderMessages(prev => ({ ...prev, [roomId]: prev[roomId] || state.messages.some(m => m.roomId === roomId) }));
+    setState(prev => ({ ...prev, messages: prev.messages.filter(m => m.roomId !== roomId) }));
+  };
+
+  const handleExportRoom = async () => {
+    const roomId = state.activeRoom;
+    const messages: Message[] = [];
+    let before = Infinity;
+    let hasMore = true;
+    while (hasMore) {
+      const page = await MessageStore.loadPage(roomId, before, EXPORT_PAGE_SIZE);
+      messages.unshift(...page.messages);
+      hasMore = page.hasMore && page.messages.length > 0;
+      if (page.messages.length > 0) before = page.messages[0].timestamp;
+    }
+    const exported = messages
+      .filter(m => !m.isDeleted)
+      .map(({ delivery, ...m }) => ({ ...m, attachment: m.attachment && { name: m.attachment.name, type: m.attachment.type, size: m.attachment.size } }));
+    downloadJson(`${roomId}-${new Date().toISOString().slice(0, 10)}.json`, { roomId, exportedAt: Date.now(), messages: exported });
+    addNotice(roomId, `Exported ${exported.length} messages. The file is not encrypted.`);
+  };
+
+  // Throws CommandError for the composer to show
+  const handleRunCommand = (input: string) => {
+    const roomId = state.activeRoom;
+    const ctx: CommandContext = {
+      roomId,
+      notice: text => addNotice(roomId, text),
+      sendEmote: action => handleSendMessage(action, undefined, undefined, undefined, true),
+      setNick: handleSetNick,
+      clearView: handleClearView,
+      getTopic: () => topics[roomId] || '',
+      setTopic: handleSetTopic,
+      setTimer: handleSetTimer,
+      exportRoom: handleExportRoom,
+      getBotsEnabled: () => isBotEnabled,
+      setBotsEnabled: handleSetBotsEnabled,
+    };
+    return SlashCommands.run(input, ctx);
+  };
+
+  const handleWipeRoom = async () => {
+    const roomId = state.activeRoom;
+    await MessageStore.wipeRoom(roomId);
+    await Outbox.wipeRoom(roomId);
+    await FileTransfer.wipeRoom(roomId);
+    state.messages.filter(m => m.roomId === roomId).forEach(m => persistedMessages.current.delete(m.id));
+    SearchIndex.removeRoom(roomId);
+    setHasOlderMessages(prev => ({ ...prev, [roomId]: false }));
+    setState(prev => ({ ...prev, messages: prev.messages.filter(m => m.roomId !== roomId) }));
+  };
+
+  const handleForgetIdentity = async () => {
+    await KeyStore.destroy();
+    setStoredIdentity(null);
   };
 
   if (!state.isAuthenticated) {
-    return <Auth onJoin={handleJoin} />;
+    if (storedIdentity === undefined) return null;
+    return (
+      <Auth
+        identity={storedIdentity}
+        defaultRoom={state.activeRoom}
+        onJoin={handleJoin}
+        onForgetIdentity={handleForgetIdentity}
+      />
+    );
   }
 
-  const lastOtherMessage = [...state.messages].reverse().find(m => m.senderId !== state.user?.id && m.type === 'text' && m.senderId !== 'bot');
-  const mockPeer: User | null = lastOtherMessage ? {
-    id: lastOtherMessage.senderId,
-    username: lastOtherMessage.senderName,
-    avatar: `https://api.dicebear.com/7.x/avataaars/svg?seed=${lastOtherMessage.senderName}`,
-    publicKey: `REMOTE-PUB-${lastOtherMessage.senderId.toUpperCase()}`,
-  } : null;
+  const roomMessages = state.messages.filter(m => m.roomId === state.activeRoom);
+  const roomPeers: { [userId: string]: KeyAnnouncement } = peers[state.activeRoom] || {};
+  const sessionStats: SessionStats = {
+    ...(telemetry[state.activeRoom] || Telemetry.get(state.activeRoom)),
+    // Only a verification of the key the peer is using right now counts
+    peersVerified: Object.values(roomPeers).filter(p => TrustStore.isVerified(trust[p.userId], p)).length,
+    peersTotal: Object.keys(roomPeers).length,
+  };
+
+  // Read from state so the summary follows consent events as they arrive
+  const roomConsents = botConsents[state.activeRoom] || [];
+  const consentMembers = [state.user!.id, ...Object.keys(roomPeers)];
+  const waitingOn = consentMembers.filter(id => !roomConsents.some(c => c.userId === id && c.granted));
+  const botConsentSummary: BotConsentSummary = {
+    mine: !waitingOn.includes(state.user!.id),
+    allowed: consentMembers.length - waitingOn.length,
+    total: consentMembers.length,
+    waitingOn: waitingOn.map(id => id === state.user!.id ? 'you' : roomPeers[id]?.username || id),
+  };
+  const roomSummaries: RoomSummary[] = state.rooms.map(roomId => ({
+    roomId,
+    unread: state.unreadCounts[roomId] || 0,
+    lastMessage: [...state.messages].reverse().find(m => m.roomId === roomId && !m.isDeleted),
+    status: state.connectionStatus[roomId]
+  }));
+
+  // Everyone seen in the room besides us; connected peers count as online until their first heartbeat says otherwise
+  const { [state.user?.id || '']: _self, ...othersPresence } = presence[state.activeRoom] || {};
+  const roomMembers: { [userId: string]: PresenceRecord } = { ...othersPresence };
+  Object.values(roomPeers).forEach(peer => {
+    const seen = roomMembers[peer.userId];
+    if (!seen || seen.state === 'offline') {
+      roomMembers[peer.userId] = { userId: peer.userId, username: peer.username, state: 'online', lastSeen: seen?.lastSeen || Date.now() };
+    }
+  });
 
   return (
     <div className="flex h-screen w-screen bg-slate-50 overflow-hidden">
       <Sidebar 
         user={state.user}
         activeRoom={state.activeRoom}
-        peer={mockPeer}
+        rooms={roomSummaries}
+        onSwitchRoom={handleSwitchRoom}
+        onJoinRoom={handleJoinRoom}
+        onCreateInvite={handleCreateInvite}
+        onLeaveRoom={handleLeaveRoom}
+        peers={Object.values(roomPeers)}
+        members={roomMembers}
+        trust={trust}
+        onSetVerified={handleSetVerified}
         isBotEnabled={isBotEnabled}
-        setIsBotEnabled={setIsBotEnabled}
-        sessionStats={{}}
-        connectionStatus={state.connectionStatus}
+        setIsBotEnabled={handleSetBotsEnabled}
+        botConsent={botConsentSummary}
+        onSetBotConsent={handleSetBotConsent}
+        sessionStats={sessionStats}
+        rekeyHistory={rekeyHistory[state.activeRoom] || []}
+        auditLog={auditLog}
+        roles={roles[state.activeRoom]}
+        onRoleAction={handleRoleAction}
+        retention={retention}
+        onSetRetention={handleSetRetention}
+        disappearingTimer={timers[state.activeRoom] || 0}
+        onSetTimer={handleSetTimer}
+        onWipeRoom={handleWipeRoom}
+        connectionStatus={state.connectionStatus[state.activeRoom]}
         onLogout={handleLogout}
       />
       <div className="flex-1 flex flex-col min-w-0 z-0">
+        {keyWarnings.map(warning => (
+          <div key={warning.userId} className="bg-rose-600 text-white px-6 py-3 flex items-center gap-3 shadow-lg animate-slide-in-bottom">
+            <i className="fas fa-triangle-exclamation text-lg animate-pulse"></i>
+            <p className="flex-1 text-xs font-semibold leading-snug">
+              <span className="font-bold uppercase tracking-wider">Identity key changed:</span>{' '}
+              {warning.username} is using a different key than before
+              {warning.wasVerified ? ', and was previously verified' : ''}. Someone may be impersonating them.
+              The old key stays trusted until you verify or accept the new one.
+            </p>
+            <button
+              onClick={() => handleAcceptKey(warning.userId)}
+              className="px-3 py-1.5 rounded-lg bg-white/20 hover:bg-white/30 text-[10px] font-bold uppercase tracking-wider"
+            >
+              Accept New Key
+            </button>
+            <button
+              onClick={() => setKeyWarnings(prev => prev.filter(w => w.userId !== warning.userId))}
+              className="px-3 py-1.5 rounded-lg bg-white/20 hover:bg-white/30 text-[10px] font-bold uppercase tracking-wider"
+            >
+              Dismiss
+            </button>
+          </div>
+        ))}
         <ChatWindow 
-          messages={state.messages}
+          key={state.activeRoom}
+          messages={roomMessages}
           currentUser={state.user!}
           activeRoom={state.activeRoom}
-          peer={mockPeer}
+          members={Object.values(roomMembers)}
+          onMessagesSeen={handleMessagesSeen}
           onSendMessage={handleSendMessage}
+          onRunCommand={handleRunCommand}
+          onCancelBotReply={handleCancelBotReply}
+          onDismissBotReply={handleDismissBotReply}
+          topic={topics[state.activeRoom] || ''}
+          onSendFile={handleSendFile}
+          transfers={transfers}
           isBotEnabled={isBotEnabled}
-          onToggleBot={() => setIsBotEnabled(!isBotEnabled)}
+          onToggleBot={() => handleSetBotsEnabled(!isBotEnabled)}
+          botConsent={botConsentSummary}
           onAddReaction={handleAddReaction}
           onTyping={handleTyping}
-          typingUsers={state.typingUsers}
+          typingUsers={state.typingUsers[state.activeRoom] || []}
           onDeleteMessages={handleDeleteMessages}
+          onEditMessage={handleEditMessage}
+          hasOlderMessages={!!hasOlderMessages[state.activeRoom]}
+          onLoadOlder={handleLoadOlder}
+          onRevealMessage={handleRevealMessage}
         />
       </div>
-      <NetworkVisualizer activity={networkActivity} />
+      <NetworkVisualizer activity={networkActivity} topology={topology[state.activeRoom]} />
     </div>
   );
 };
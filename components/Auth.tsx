@@ -1,17 +1,63 @@
 import React, { useState } from 'react';
+import { User, JoinOptions, JoinAccess, Topology, TransportKind } from '../types.ts';
+import { DEFAULT_RELAY_URL } from '../services/socketService.ts';
+import { RoomAccess } from '../services/roomAccess.ts';
+import { CryptoService } from '../services/cryptoService.ts';
+
+type RoomMode = 'join' | 'create' | 'invite';
 
 interface AuthProps {
-  onJoin: (username: string, roomId: string) => void;
+  identity: User | null;
+  defaultRoom: string;
+  onJoin: (username: string, roomId: string, passphrase: string, options: JoinOptions, access: JoinAccess) => Promise<void>;
+  onForgetIdentity: () => void;
 }
 
-const Auth: React.FC<AuthProps> = ({ onJoin }) => {
+const Auth: React.FC<AuthProps> = ({ identity, defaultRoom, onJoin, onForgetIdentity }) => {
   const [username, setUsername] = useState('');
-  const [roomId, setRoomId] = useState('Lobby');
+  const [roomId, setRoomId] = useState(defaultRoom);
+  const [inviteText, setInviteText] = useState(() => window.location.hash.slice(1));
+  const [mode, setMode] = useState<RoomMode>(() => RoomAccess.parseInvite(window.location.hash) ? 'invite' : 'join');
+  const [roomPassword, setRoomPassword] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [transport, setTransport] = useState<TransportKind>('peerjs');
+  const [topology, setTopology] = useState<Topology>('star');
+  const [relayUrl, setRelayUrl] = useState(DEFAULT_RELAY_URL);
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (username.trim()) {
-      onJoin(username, roomId);
+    if (!identity && passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match.');
+      return;
+    }
+    const invite = mode === 'invite' ? RoomAccess.parseInvite(inviteText) : null;
+    if (mode === 'invite' && !invite) {
+      setError('That is not a valid invite link.');
+      return;
+    }
+    if (identity || username.trim()) {
+      setError('');
+      setIsBusy(true);
+      try {
+        // A created room without a password gets a random one nobody knows, so only invites get in
+        const access: JoinAccess = invite
+          ? { inviteToken: invite.token }
+          : { password: roomPassword || (mode === 'create' ? CryptoService.randomToken(32) : undefined) };
+        await onJoin(identity ? identity.username : username, invite ? invite.roomId : roomId, passphrase, { transport, topology, relayUrl: relayUrl.trim() }, access);
+        if (window.location.hash) history.replaceState(null, '', window.location.pathname + window.location.search);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to unlock identity.');
+        setIsBusy(false);
+      }
+    }
+  };
+
+  const handleForget = () => {
+    if (window.confirm('Delete the identity keys stored on this device? Peers who verified you will see a new key.')) {
+      onForgetIdentity();
     }
   };
 
@@ -20,49 +66,185 @@ const Auth: React.FC<AuthProps> = ({ onJoin }) => {
       <div className="w-full max-w-md bg-white rounded-3xl shadow-2xl p-8 animate-fade-in">
         <div className="text-center mb-8">
           <div className="w-16 h-16 bg-indigo-100 rounded-2xl flex items-center justify-center text-indigo-600 text-2xl mx-auto mb-4">
-            <i className="fas fa-comments"></i>
+            <i className={`fas ${identity ? 'fa-lock' : 'fa-comments'}`}></i>
           </div>
           <h1 className="text-2xl font-bold text-slate-800">SimpleChat</h1>
-          <p className="text-slate-500 text-sm">Join a room and start chatting</p>
+          <p className="text-slate-500 text-sm">
+            {identity ? `Unlock your identity, ${identity.username}` : 'Create an identity and start chatting'}
+          </p>
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-4">
+          {!identity && (
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Username</label>
+              <input
+                type="text"
+                className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 outline-none focus:ring-2 focus:ring-indigo-500 transition-all"
+                placeholder="e.g. Alex"
+                value={username}
+                onChange={e => setUsername(e.target.value)}
+                required
+              />
+            </div>
+          )}
           <div>
-            <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Username</label>
-            <input 
-              type="text" 
+            <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Passphrase</label>
+            <input
+              type="password"
               className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 outline-none focus:ring-2 focus:ring-indigo-500 transition-all"
-              placeholder="e.g. Alex"
-              value={username}
-              onChange={e => setUsername(e.target.value)}
+              placeholder={identity ? 'Unlocks your keys on this device' : 'Protects your keys on this device'}
+              value={passphrase}
+              onChange={e => setPassphrase(e.target.value)}
+              minLength={identity ? undefined : 8}
               required
             />
           </div>
+          {!identity && (
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Confirm Passphrase</label>
+              <input
+                type="password"
+                className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 outline-none focus:ring-2 focus:ring-indigo-500 transition-all"
+                value={confirmPassphrase}
+                onChange={e => setConfirmPassphrase(e.target.value)}
+                required
+              />
+            </div>
+          )}
           <div>
-            <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Room Name</label>
-            <input 
-              type="text" 
-              className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 outline-none focus:ring-2 focus:ring-indigo-500 transition-all"
-              placeholder="e.g. Lobby"
-              value={roomId}
-              onChange={e => setRoomId(e.target.value)}
-              required
-            />
+            <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Room</label>
+            <div className="grid grid-cols-3 gap-2">
+              {(['join', 'create', 'invite'] as RoomMode[]).map(m => (
+                <button
+                  key={m}
+                  type="button"
+                  onClick={() => setMode(m)}
+                  className={`py-2 rounded-xl border text-xs font-bold transition-all ${mode === m ? 'bg-indigo-50 border-indigo-500 text-indigo-600' : 'bg-slate-50 border-slate-200 text-slate-500 hover:border-slate-300'}`}
+                >
+                  {m === 'join' ? 'Join' : m === 'create' ? 'Create' : 'Invite Link'}
+                </button>
+              ))}
+            </div>
           </div>
-          <button 
+          {mode === 'invite' ? (
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Invite Link</label>
+              <input
+                type="text"
+                className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 outline-none focus:ring-2 focus:ring-indigo-500 transition-all"
+                placeholder="Paste the link you were sent"
+                value={inviteText}
+                onChange={e => setInviteText(e.target.value)}
+                required
+              />
+              {RoomAccess.parseInvite(inviteText) && (
+                <p className="mt-2 text-[11px] text-slate-400">
+                  Invite to <span className="font-bold text-slate-600">#{RoomAccess.parseInvite(inviteText)!.roomId}</span>. It works once.
+                </p>
+              )}
+            </div>
+          ) : (
+            <>
+              <div>
+                <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Room Name</label>
+                <input
+                  type="text"
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 outline-none focus:ring-2 focus:ring-indigo-500 transition-all"
+                  placeholder="e.g. Lobby"
+                  value={roomId}
+                  onChange={e => setRoomId(e.target.value)}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Room Password</label>
+                <input
+                  type="password"
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 outline-none focus:ring-2 focus:ring-indigo-500 transition-all"
+                  placeholder={mode === 'create' ? 'Leave empty for invite-only' : 'Only if the room has one'}
+                  value={roomPassword}
+                  onChange={e => setRoomPassword(e.target.value)}
+                />
+              </div>
+            </>
+          )}
+          <div>
+            <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Transport</label>
+            <div className="grid grid-cols-2 gap-2">
+              {(['peerjs', 'socketio'] as TransportKind[]).map(kind => (
+                <button
+                  key={kind}
+                  type="button"
+                  onClick={() => setTransport(kind)}
+                  className={`py-2 rounded-xl border text-xs font-bold transition-all ${transport === kind ? 'bg-indigo-50 border-indigo-500 text-indigo-600' : 'bg-slate-50 border-slate-200 text-slate-500 hover:border-slate-300'}`}
+                >
+                  <i className={`fas ${kind === 'peerjs' ? 'fa-tower-broadcast' : 'fa-server'} mr-2`}></i>
+                  {kind === 'peerjs' ? 'Peer-to-Peer' : 'Relay Server'}
+                </button>
+              ))}
+            </div>
+          </div>
+          {transport === 'peerjs' ? (
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Topology</label>
+              <div className="grid grid-cols-2 gap-2">
+                {(['star', 'mesh'] as Topology[]).map(mode => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => setTopology(mode)}
+                    className={`py-2 rounded-xl border text-xs font-bold transition-all ${topology === mode ? 'bg-indigo-50 border-indigo-500 text-indigo-600' : 'bg-slate-50 border-slate-200 text-slate-500 hover:border-slate-300'}`}
+                  >
+                    <i className={`fas ${mode === 'star' ? 'fa-server' : 'fa-circle-nodes'} mr-2`}></i>
+                    {mode === 'star' ? 'Host Relay' : 'Full Mesh'}
+                  </button>
+                ))}
+              </div>
+              <p className="mt-2 text-[11px] text-slate-400">
+                Applies to rooms you end up hosting; otherwise you follow the room's Host.
+              </p>
+            </div>
+          ) : (
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Relay URL</label>
+              <input
+                type="url"
+                className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 outline-none focus:ring-2 focus:ring-indigo-500 transition-all"
+                value={relayUrl}
+                onChange={e => setRelayUrl(e.target.value)}
+                required
+              />
+              <p className="mt-2 text-[11px] text-slate-400">
+                For networks that block peer-to-peer traffic. The relay never sees message contents.
+              </p>
+            </div>
+          )}
+          {error && (
+            <p className="text-xs font-semibold text-rose-500 flex items-center gap-2">
+              <i className="fas fa-circle-exclamation"></i> {error}
+            </p>
+          )}
+          <button
             type="submit"
-            className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-4 rounded-xl transition-all shadow-lg shadow-indigo-100"
+            disabled={isBusy}
+            className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:opacity-60 text-white font-bold py-4 rounded-xl transition-all shadow-lg shadow-indigo-100"
           >
-            Enter Chat
+            {isBusy ? <i className="fas fa-circle-notch fa-spin"></i> : identity ? 'Unlock & Enter' : 'Create Identity & Enter'}
           </button>
         </form>
-        <p className="mt-6 text-center text-xs text-slate-400">
-          Open this page in another tab to chat with yourself!
-        </p>
+        {identity ? (
+          <button onClick={handleForget} className="mt-6 w-full text-center text-xs text-slate-400 hover:text-rose-500 transition-colors">
+            Not you? Forget this identity
+          </button>
+        ) : (
+          <p className="mt-6 text-center text-xs text-slate-400">
+            Open this page in a private window to chat as a second identity!
+          </p>
+        )}
       </div>
     </div>
   );
 };
 
 export default Auth;
-//
\ No newline at end of file
@@ -1,28 +1,102 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Message, User, Attachment } from '../types.ts';
-import { formatDate, isSameDay, getTypingString } from '../utils/formatters.ts';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Message, User, Attachment, DeliveryState, TransferState, PresenceRecord, LinkPreview, BotConsentSummary } from '../types.ts';
+import { MAX_FILE_SIZE } from '../services/fileTransfer.ts';
+import { SearchIndex, SearchHit, parseQuery } from '../services/searchIndex.ts';
+import ThreadPanel from './ThreadPanel.tsx';
+import MessageContent from './MessageContent.tsx';
+import LinkPreviewCard from './LinkPreviewCard.tsx';
+import { LinkPreviewer } from '../services/linkPreview.ts';
+import { isBotSender } from '../services/botRegistry.ts';
+import { SlashCommands, CommandError } from '../services/slashCommands.ts';
+import { firstUrl } from '../utils/markdown.ts';
+import { formatDate, isSameDay, getTypingString, formatDuration } from '../utils/formatters.ts';
 
 interface ChatWindowProps {
   messages: Message[];
   currentUser: User;
   activeRoom: string;
-  peer: User | null;
-  onSendMessage: (content: string, attachment?: Attachment) => void;
+  members: PresenceRecord[];
+  onMessagesSeen: (ids: string[]) => void;
+  onSendMessage: (content: string, attachment?: Attachment, replyTo?: string, linkPreview?: LinkPreview) => void;
+  onRunCommand: (input: string) => Promise<void>;
+  onCancelBotReply: (id: string) => void;
+  onDismissBotReply: (id: string) => void;
+  topic: string;
+  onSendFile: (file: File) => Promise<void>;
+  transfers: { [fileId: string]: TransferState };
   isBotEnabled: boolean;
   onToggleBot: () => void;
+  botConsent: BotConsentSummary;
   onAddReaction: (messageId: string, emoji: string) => void;
   onTyping: (isTyping: boolean) => void;
   typingUsers: string[];
   onDeleteMessages: (ids: string[]) => void;
+  onEditMessage: (messageId: string, content: string) => void;
+  hasOlderMessages: boolean;
+  onLoadOlder: () => Promise<void>;
+  onRevealMessage: (timestamp: number) => Promise<void>;
 }
 
 const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🔥'];
-const MAX_FILE_SIZE = 1 * 1024 * 1024; // 1MB
+const COUNTDOWN_TICK_MS = 1000;
+// Share of a bubble that must be on screen before it counts as read
+const READ_VISIBILITY_THRESHOLD = 0.6;
+
+const DeliveryTicks: React.FC<{ delivery?: DeliveryState }> = ({ delivery }) => {
+  // Messages from before delivery tracking existed
+  if (!delivery) return <i className="fas fa-check-double"></i>;
+  if (delivery.status === 'pending') return <i className="far fa-clock" title="Waiting to send"></i>;
+  if (delivery.status === 'sent') return <i className="fas fa-check" title="Sent"></i>;
+  if (delivery.readBy.length === 0) return <i className="fas fa-check-double" title="Delivered to host"></i>;
+  return (
+    <span className="flex items-center gap-0.5 text-emerald-300" title={`Read by ${delivery.readBy.length}`}>
+      <i className="fas fa-check-double"></i>
+      {delivery.readBy.length > 1 && <span className="font-bold">{delivery.readBy.length}</span>}
+    </span>
+  );
+};
+
+// A bot answer that hasn't been sent: still arriving, stopped, or failed
+const BotReplyBody: React.FC<{ message: Message; onCancel: () => void; onDismiss: () => void }> = ({ message, onCancel, onDismiss }) => {
+  const { status, error } = message.botReply!;
+  return (
+    <div onClick={e => e.stopPropagation()}>
+      {message.content
+        ? <MessageContent text={message.content} isOwn={false} />
+        : status === 'streaming' && <span className="text-slate-400 italic"><i className="fas fa-circle-notch fa-spin mr-2"></i>Thinking…</span>}
+      {status === 'error' && (
+        <div className="mt-1 px-3 py-2 rounded-lg bg-red-50 border border-red-200 text-red-600 text-xs flex items-start gap-2">
+          <i className="fas fa-triangle-exclamation mt-0.5"></i>
+          <span className="flex-1">{message.senderName} couldn't answer: {error}</span>
+        </div>
+      )}
+      <div className="mt-2 flex items-center gap-3 text-[10px] font-bold uppercase tracking-wider">
+        {status === 'streaming' ? (
+          <button onClick={onCancel} className="text-slate-400 hover:text-red-500">
+            <i className="fas fa-stop mr-1"></i>Stop
+          </button>
+        ) : (
+          <>
+            <span className="text-slate-300">{status === 'error' ? 'Not sent' : 'Stopped · not sent'}</span>
+            <button onClick={onDismiss} className="text-slate-400 hover:text-slate-600">Dismiss</button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const Highlighted: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => {
+  if (terms.length === 0) return <>{text}</>;
+  const pattern = new RegExp(`(${terms.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'gi');
+  // Splitting on a capturing group puts the matches at odd indexes
+  return <>{text.split(pattern).map((part, i) => i % 2 === 1 ? <mark key={i} className="bg-amber-100 text-slate-800 rounded px-0.5">{part}</mark> : part)}</>;
+};
 
 const ChatWindow: React.FC<ChatWindowProps> = ({ 
-  messages, currentUser, activeRoom, peer, 
-  onSendMessage, isBotEnabled, onToggleBot, onAddReaction, 
-  onTyping, typingUsers, onDeleteMessages
+  messages, currentUser, activeRoom, members, onMessagesSeen,
+  onSendMessage, onRunCommand, onCancelBotReply, onDismissBotReply, topic, onSendFile, transfers, isBotEnabled, onToggleBot, botConsent, onAddReaction, 
+  onTyping, typingUsers, onDeleteMessages, onEditMessage, hasOlderMessages, onLoadOlder, onRevealMessage
 }) => {
   const [inputText, setInputText] = useState('');
   const [activeReactionId, setActiveReactionId] = useState<string | null>(null);
@@ -30,11 +104,29 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
   const [uploading, setUploading] = useState(false);
   const [isSearchOpen, setIsSearchOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [threadRootId, setThreadRootId] = useState<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  const [historyOpenId, setHistoryOpenId] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  // A search result whose message is still being loaded from older history
+  const [pendingJumpId, setPendingJumpId] = useState<string | null>(null);
+  // Previews are opt-in per message: nothing is fetched until the sender asks for one
+  const [linkPreview, setLinkPreview] = useState<LinkPreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [commandError, setCommandError] = useState<string | null>(null);
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
   
   const scrollRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const messageRefs = useRef<{ [id: string]: HTMLDivElement | null }>({});
   const wrapperRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onMessagesSeenRef = useRef(onMessagesSeen);
+  onMessagesSeenRef.current = onMessagesSeen;
 
   // Auto-scroll logic: Only auto-scroll if we are at the bottom or if it's a new message, 
   // but disable if searching to avoid jumping around.
@@ -42,7 +134,45 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
     if (scrollRef.current && !searchQuery) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [messages.length, messages[messages.length - 1]?.reactions, typingUsers.length, searchQuery]); 
+  }, [messages[messages.length - 1]?.id, messages[messages.length - 1]?.reactions, messages[messages.length - 1]?.content, typingUsers.length, searchQuery]); 
+
+  // Only tick while something on screen is counting down
+  const hasExpiring = messages.some(m => m.expiresAt);
+  useEffect(() => {
+    if (!hasExpiring) return;
+    const timer = setInterval(() => setNow(Date.now()), COUNTDOWN_TICK_MS);
+    return () => clearInterval(timer);
+  }, [hasExpiring]);
+
+  // Read receipts follow what actually scrolls into view, not what merely arrived
+  useEffect(() => {
+    const root = scrollRef.current;
+    if (!root) return;
+    const observer = new IntersectionObserver(entries => {
+      const seen = entries.filter(e => e.isIntersecting).map(e => e.target as HTMLElement);
+      if (seen.length === 0) return;
+      seen.forEach(el => observer.unobserve(el));
+      onMessagesSeenRef.current(seen.map(el => el.dataset.messageId!));
+    }, { root, threshold: READ_VISIBILITY_THRESHOLD });
+    messages
+      .filter(m => m.senderId !== currentUser.id && m.type !== 'system' && !isBotSender(m.senderId) && !m.isDeleted)
+      .forEach(m => {
+        const el = messageRefs.current[m.id];
+        if (el) observer.observe(el);
+      });
+    return () => observer.disconnect();
+  }, [messages, currentUser.id]);
+
+  const onlineMembers = members.filter(m => m.state !== 'offline');
+
+  const messagesById = useMemo(() => new Map(messages.map(m => [m.id, m])), [messages]);
+  const threadReplies = useMemo(() => {
+    const byRoot: { [rootId: string]: Message[] } = {};
+    messages.forEach(m => {
+      if (m.threadRoot) (byRoot[m.threadRoot] = byRoot[m.threadRoot] || []).push(m);
+    });
+    return byRoot;
+  }, [messages]);
 
   // Outside click to clear state
   useEffect(() => {
@@ -57,8 +187,10 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
     };
   }, []);
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setInputText(e.target.value);
+    setCommandError(null);
+    setSuggestionIndex(0);
     
     // Typing indicator logic
     onTyping(true);
@@ -68,50 +200,88 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
     }, 2000);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const composedUrl = firstUrl(inputText);
+
+  const handleAddPreview = async () => {
+    if (!composedUrl) return;
+    setPreviewLoading(true);
+    try {
+      setLinkPreview(await LinkPreviewer.generate(composedUrl));
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  const suggestions = SlashCommands.complete(inputText);
+
+  const handlePickSuggestion = (name: string) => {
+    setInputText(`/${name} `);
+    setSuggestionIndex(0);
+    inputRef.current?.focus();
+  };
+
+  const resetComposer = () => {
+    setInputText('');
+    setLinkPreview(null);
+    setReplyingTo(null);
+    onTyping(false);
+    if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (SlashCommands.handles(inputText.trim())) {
+      try {
+        await onRunCommand(inputText.trim());
+        resetComposer();
+      } catch (err) {
+        // Anything unexpected is still shown, but logged in full
+        if (!(err instanceof CommandError)) console.error("Command failed:", err);
+        setCommandError(err instanceof Error ? err.message : String(err));
+      }
+      return;
+    }
     if (inputText.trim()) {
-      onSendMessage(inputText);
-      setInputText('');
-      onTyping(false);
-      if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+      // A preview for a link that was since edited out of the text isn't sent
+      onSendMessage(inputText, undefined, replyingTo?.id, linkPreview && linkPreview.url === composedUrl ? linkPreview : undefined);
+      resetComposer();
     }
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
     if (file.size > MAX_FILE_SIZE) {
-      alert(`File too large. Max size is 1MB for P2P stability.`);
+      alert(`File too large. Max size is ${MAX_FILE_SIZE / (1024 * 1024)}MB.`);
       e.target.value = '';
       return;
     }
 
     setUploading(true);
-    const reader = new FileReader();
-    reader.onload = () => {
-      const base64 = reader.result as string;
-      const type = file.type.startsWith('image/') ? 'image' : file.type.startsWith('video/') ? 'video' : 'file';
-      
-      const attachment: Attachment = {
-        id: `att-${Date.now()}`,
-        name: file.name,
-        type,
-        mimeType: file.type,
-        data: base64,
-        size: file.size
-      };
-
-      onSendMessage("", attachment);
+    try {
+      await onSendFile(file);
+    } catch (err) {
+      console.error("File upload failed", err);
+    } finally {
       setUploading(false);
       if (fileInputRef.current) fileInputRef.current.value = '';
-    };
-    reader.onerror = () => {
-      console.error("File reading failed");
-      setUploading(false);
-    };
-    reader.readAsDataURL(file);
+    }
+  };
+
+  const handleLoadOlder = async () => {
+    const el = scrollRef.current;
+    const previousHeight = el ? el.scrollHeight : 0;
+    setLoadingOlder(true);
+    try {
+      await onLoadOlder();
+    } finally {
+      setLoadingOlder(false);
+    }
+    // Keep the viewport anchored on the message that was at the top
+    requestAnimationFrame(() => {
+      if (el) el.scrollTop = el.scrollHeight - previousHeight;
+    });
   };
 
   const toggleReactionPicker = (msgId: string, e: React.MouseEvent) => {
@@ -138,6 +308,9 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
     setSelectedMessageIds(new Set());
   };
 
+  // Peers only honour deletes from a message's own sender
+  const canDeleteSelected = Array.from(selectedMessageIds).every(id => messagesById.get(id)?.senderId === currentUser.id);
+
   const handleDeleteSelected = () => {
     if (window.confirm(`Delete ${selectedMessageIds.size} messages for everyone?`)) {
       onDeleteMessages(Array.from(selectedMessageIds));
@@ -145,6 +318,13 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
     }
   };
 
+  const handleReplyToSelected = () => {
+    const msg = messagesById.get(Array.from(selectedMessageIds)[0]);
+    if (msg) setReplyingTo(msg);
+    setSelectedMessageIds(new Set());
+    inputRef.current?.focus();
+  };
+
   const handleForwardMessages = () => {
     const content = messages
       .filter(m => selectedMessageIds.has(m.id) && !m.isDeleted && m.type === 'text')
@@ -156,22 +336,103 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
   
   const handleReply = (msg: Message, e: React.MouseEvent) => {
     e.stopPropagation();
-    // Quote format
-    const quote = `> ${msg.senderName}: ${msg.content}\n\n`;
-    setInputText(prev => prev + quote);
+    setReplyingTo(msg);
+    inputRef.current?.focus();
+  };
+
+  const handleStartEdit = (msg: Message, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setEditing({ id: msg.id, text: msg.content });
+  };
+
+  const handleSaveEdit = () => {
+    if (editing && editing.text.trim()) onEditMessage(editing.id, editing.text.trim());
+    setEditing(null);
+  };
+
+  const jumpToMessage = (messageId: string) => {
+    if (searchQuery) {
+      setSearchQuery('');
+      setIsSearchOpen(false);
+    }
+    requestAnimationFrame(() => {
+      messageRefs.current[messageId]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      setHighlightedId(messageId);
+      setTimeout(() => setHighlightedId(prev => (prev === messageId ? null : prev)), 1500);
+    });
+  };
+
+  // Results can come from history older than what's on screen; load back to it first
+  const handleOpenResult = async (hit: SearchHit) => {
+    setSearchQuery('');
+    setIsSearchOpen(false);
+    if (messagesById.has(hit.message.id)) {
+      jumpToMessage(hit.message.id);
+      return;
+    }
+    setPendingJumpId(hit.message.id);
+    await onRevealMessage(hit.message.timestamp);
+  };
+
+  useEffect(() => {
+    if (pendingJumpId && messagesById.has(pendingJumpId)) {
+      setPendingJumpId(null);
+      jumpToMessage(pendingJumpId);
+    }
+  }, [pendingJumpId, messagesById]);
+
+  const previewText = (msg: Message) =>
+    msg.isDeleted ? 'This message was deleted' : msg.content || (msg.attachment ? `Sent ${msg.attachment.name}` : '');
+
+  const renderTransferProgress = (transfer: TransferState) => {
+    const percent = transfer.total ? Math.round((transfer.done / transfer.total) * 100) : 0;
+    return (
+      <div className="mt-2">
+        <div className="h-1 rounded-full bg-black/10 overflow-hidden">
+          <div className="h-full bg-current opacity-60 transition-all" style={{ width: `${percent}%` }}></div>
+        </div>
+        <div className="text-[10px] opacity-70 mt-1">
+          {transfer.status === 'uploading' ? `Sending to peers… ${percent}%` : `Receiving… ${percent}%`}
+        </div>
+      </div>
+    );
   };
 
   const renderAttachment = (att: Attachment) => {
+    const transfer = transfers[att.id];
+    // Inline data URI from before chunked transfer, or the reassembled blob
+    const src = att.data || transfer?.url;
+    const inProgress = transfer && (transfer.status === 'uploading' || transfer.status === 'downloading');
+
+    if (!src) {
+      return (
+        <div className="flex items-center gap-3 p-3 bg-white/10 rounded-lg mb-2 border border-white/20">
+           <div className="w-10 h-10 bg-indigo-500 rounded-lg flex items-center justify-center text-white">
+             <i className={`fas ${transfer?.status === 'failed' ? 'fa-triangle-exclamation' : 'fa-circle-notch fa-spin'}`}></i>
+           </div>
+           <div className="flex-1 min-w-0">
+             <div className="text-xs font-bold truncate">{att.name}</div>
+             <div className="text-[10px] opacity-70">{(att.size / 1024).toFixed(1)} KB</div>
+             {transfer?.status === 'failed'
+               ? <div className="text-[10px] opacity-70 mt-1">Transfer failed integrity check</div>
+               : transfer && renderTransferProgress(transfer)}
+           </div>
+        </div>
+      );
+    }
+
     if (att.type === 'image') {
       return (
         <div className="mb-2 rounded-lg overflow-hidden border border-slate-200/20">
-          <img src={att.data} alt={att.name} className="max-w-full max-h-[300px] object-cover" />
+          <img src={src} alt={att.name} className="max-w-full max-h-[300px] object-cover" />
+          {inProgress && <div className="px-2 pb-2">{renderTransferProgress(transfer)}</div>}
         </div>
       );
     } else if (att.type === 'video') {
       return (
         <div className="mb-2 rounded-lg overflow-hidden border border-slate-200/20">
-          <video controls src={att.data} className="max-w-full max-h-[300px]" />
+          <video controls src={src} className="max-w-full max-h-[300px]" />
+          {inProgress && <div className="px-2 pb-2">{renderTransferProgress(transfer)}</div>}
         </div>
       );
     } else {
@@ -183,8 +444,9 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
            <div className="flex-1 min-w-0">
              <div className="text-xs font-bold truncate">{att.name}</div>
              <div className="text-[10px] opacity-70">{(att.size / 1024).toFixed(1)} KB</div>
+             {inProgress && renderTransferProgress(transfer)}
            </div>
-           <a href={att.data} download={att.name} onClick={e => e.stopPropagation()} className="w-8 h-8 flex items-center justify-center bg-white/20 rounded-full hover:bg-white/30 transition-colors">
+           <a href={src} download={att.name} onClick={e => e.stopPropagation()} className="w-8 h-8 flex items-center justify-center bg-white/20 rounded-full hover:bg-white/30 transition-colors">
              <i className="fas fa-download text-xs"></i>
            </a>
         </div>
@@ -194,13 +456,11 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
 
   const isSelectionMode = selectedMessageIds.size > 0;
   
-  // Filter messages for search
-  const displayMessages = searchQuery 
-    ? messages.filter(m => 
-        m.content.toLowerCase().includes(searchQuery.toLowerCase()) || 
-        m.senderName.toLowerCase().includes(searchQuery.toLowerCase())
-      )
-    : messages;
+  // The index covers stored history too; `messages` keeps it current as things arrive, change or disappear
+  const searchResults = useMemo(
+    () => (isSearchOpen && searchQuery.trim() ? SearchIndex.search(activeRoom, searchQuery) : []),
+    [isSearchOpen, searchQuery, activeRoom, messages]
+  );
 
   return (
     <div className="flex flex-col h-full max-w-4xl mx-auto w-full bg-white shadow-xl relative" ref={wrapperRef}>
@@ -217,15 +477,22 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
               <span className="font-bold text-lg">{selectedMessageIds.size} Selected</span>
             </div>
             <div className="flex items-center gap-2">
+              {selectedMessageIds.size === 1 && (
+                <button onClick={handleReplyToSelected} className="p-2 hover:bg-white/20 rounded-lg" title="Reply">
+                  <i className="fas fa-reply"></i>
+                </button>
+              )}
               <button onClick={handleCopyMessages} className="p-2 hover:bg-white/20 rounded-lg" title="Copy">
                 <i className="fas fa-copy"></i>
               </button>
               <button onClick={handleForwardMessages} className="p-2 hover:bg-white/20 rounded-lg" title="Quote/Forward">
                 <i className="fas fa-quote-right"></i>
               </button>
-              <button onClick={handleDeleteSelected} className="p-2 hover:bg-white/20 rounded-lg hover:text-red-200" title="Delete">
-                <i className="fas fa-trash"></i>
-              </button>
+              {canDeleteSelected && (
+                <button onClick={handleDeleteSelected} className="p-2 hover:bg-white/20 rounded-lg hover:text-red-200" title="Delete">
+                  <i className="fas fa-trash"></i>
+                </button>
+              )}
             </div>
           </div>
         ) : isSearchOpen ? (
@@ -236,7 +503,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                   autoFocus
                   type="text" 
                   className="w-full bg-slate-100 border-none rounded-xl pl-10 pr-4 py-2.5 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
-                  placeholder="Search messages..."
+                  placeholder="Search... from: has:image has:file before: after:"
                   value={searchQuery}
                   onChange={e => setSearchQuery(e.target.value)}
                 />
@@ -248,27 +515,24 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
         ) : (
           <>
             <div className="flex items-center gap-3">
-              {peer ? (
-                 <div className="relative">
-                    <img src={peer.avatar} className="w-10 h-10 rounded-full bg-slate-100 object-cover border border-slate-200" alt={peer.username} />
-                    <div className="absolute -bottom-0.5 -right-0.5 w-3 h-3 bg-emerald-500 rounded-full border-2 border-white"></div>
-                 </div>
-              ) : (
-                <div className="w-10 h-10 bg-indigo-600 rounded-full flex items-center justify-center text-white shadow-md shadow-indigo-200">
-                  <i className="fas fa-hashtag"></i>
-                </div>
-              )}
+              <div className="w-10 h-10 bg-indigo-600 rounded-full flex items-center justify-center text-white shadow-md shadow-indigo-200">
+                <i className="fas fa-hashtag"></i>
+              </div>
               
               <div>
                 <h2 className="font-bold text-slate-800 leading-tight">
-                    {peer ? peer.username : activeRoom}
+                    {activeRoom}
                 </h2>
                 <div className="flex items-center gap-1.5">
-                   <span className="w-1.5 h-1.5 rounded-full bg-emerald-500 animate-pulse"></span>
-                   <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">
-                     {peer ? 'End-to-End Encrypted' : 'Encrypted Group'}
+                   <span className={`w-1.5 h-1.5 rounded-full ${onlineMembers.length > 0 ? 'bg-emerald-500 animate-pulse' : 'bg-slate-300'}`}></span>
+                   <p
+                     className="text-[10px] text-slate-400 font-bold uppercase tracking-widest"
+                     title={onlineMembers.map(m => m.username).join(', ')}
+                   >
+                     {onlineMembers.length > 0 ? `${onlineMembers.length} online · ` : ''}Encrypted Group
                    </p>
                 </div>
+                {topic && <p className="text-xs text-slate-500 truncate max-w-md" title={topic}>{topic}</p>}
               </div>
             </div>
             
@@ -283,6 +547,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
 
               <button 
                 onClick={onToggleBot}
+                title="Bots answer /commands and @mentions"
                 className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-xs font-bold transition-all ${
                   isBotEnabled ? 'bg-indigo-50 border-indigo-200 text-indigo-600' : 'bg-slate-50 border-slate-200 text-slate-400'
                 }`}
@@ -295,33 +560,90 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
         )}
       </header>
 
+      {/* Everyone sees this once anyone opts in, so nobody is surprised by a bot reading along */}
+      {botConsent.allowed > 0 && (
+        <div className={`px-6 py-2 text-[11px] flex items-center gap-2 border-b
+          ${botConsent.waitingOn.length === 0 ? 'bg-amber-50 text-amber-700 border-amber-100' : 'bg-slate-50 text-slate-500 border-slate-100'}`}>
+          <i className="fas fa-robot"></i>
+          {botConsent.waitingOn.length === 0
+            ? <span>External bots are allowed in this room. When someone asks one, their question and recent messages from members who allowed it leave this device after redaction.</span>
+            : <span>{botConsent.allowed} of {botConsent.total} members allowed external bots. They stay off until {botConsent.waitingOn.join(', ')} agree{botConsent.waitingOn.length === 1 && botConsent.waitingOn[0] !== 'you' ? 's' : ''}.</span>}
+        </div>
+      )}
+
+      {/* Search results sit over the timeline, which stays as it was underneath */}
+      {isSearchOpen && searchQuery.trim() && (
+        <div className="absolute inset-x-0 top-[80px] bottom-0 z-30 bg-white overflow-y-auto custom-scrollbar animate-fade-in">
+          {searchResults.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-full text-slate-400">
+              <i className="fas fa-search text-3xl mb-3 opacity-20"></i>
+              <p className="text-sm font-medium">No messages found</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-slate-100">
+              <p className="px-6 py-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                {searchResults.length} result{searchResults.length === 1 ? '' : 's'}
+              </p>
+              {searchResults.map(hit => (
+                <button
+                  key={hit.message.id}
+                  onClick={() => handleOpenResult(hit)}
+                  className="w-full text-left px-6 py-3 hover:bg-indigo-50/50 transition-colors"
+                >
+                  {hit.previous && (
+                    <p className="text-[11px] text-slate-300 truncate">{hit.previous.senderName}: {hit.previous.content || hit.previous.attachmentName}</p>
+                  )}
+                  <div className="flex items-center justify-between gap-3 my-0.5">
+                    <span className="text-xs font-bold text-slate-700">{hit.message.senderName}</span>
+                    <span className="text-[10px] text-slate-400">{new Date(hit.message.timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}</span>
+                  </div>
+                  <p className="text-sm text-slate-600">
+                    {hit.message.attachmentType && <i className={`fas ${hit.message.attachmentType === 'image' ? 'fa-image' : 'fa-paperclip'} mr-1.5 text-slate-400`}></i>}
+                    <Highlighted text={hit.snippet} terms={parseQuery(searchQuery).terms} />
+                  </p>
+                  {hit.next && (
+                    <p className="text-[11px] text-slate-300 truncate">{hit.next.senderName}: {hit.next.content || hit.next.attachmentName}</p>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Messages */}
       <div 
         ref={scrollRef}
         className="flex-1 overflow-y-auto p-6 space-y-1 custom-scrollbar bg-slate-50/50"
       >
-        {displayMessages.length === 0 && searchQuery && (
-           <div className="flex flex-col items-center justify-center h-full text-slate-400">
-              <i className="fas fa-search text-3xl mb-3 opacity-20"></i>
-              <p className="text-sm font-medium">No messages found</p>
+        {hasOlderMessages && (
+           <div className="flex justify-center mb-4">
+              <button
+                onClick={handleLoadOlder}
+                disabled={loadingOlder}
+                className="px-4 py-1.5 rounded-full bg-white border border-slate-200 text-[10px] font-bold text-slate-500 uppercase tracking-widest hover:border-indigo-200 hover:text-indigo-600 transition-all shadow-sm"
+              >
+                {loadingOlder ? <i className="fas fa-circle-notch fa-spin"></i> : 'Load older messages'}
+              </button>
            </div>
         )}
 
-        {displayMessages.map((msg, index) => {
+        {messages.map((msg, index) => {
           if (msg.type === 'system') {
             return (
               <div key={msg.id} className="text-center my-6">
-                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest bg-slate-100 px-3 py-1 rounded-full border border-slate-200">
+                <span className={`inline-block whitespace-pre-line text-[10px] font-bold text-slate-400 bg-slate-100 px-3 py-1 border border-slate-200
+                  ${msg.content.includes('\n') ? 'text-left rounded-2xl' : 'uppercase tracking-widest rounded-full'}`}>
                   {msg.content}
                 </span>
               </div>
             );
           }
 
-          // Grouping Logic (Caution: filtering breaks sequence logic visually, but that's acceptable for search results)
+          // Grouping Logic
           const isOwn = msg.senderId === currentUser.id;
-          const previousMsg = displayMessages[index - 1];
-          const nextMsg = displayMessages[index + 1];
+          const previousMsg = messages[index - 1];
+          const nextMsg = messages[index + 1];
           const isSequence = previousMsg && previousMsg.senderId === msg.senderId && previousMsg.type !== 'system' && (msg.timestamp - previousMsg.timestamp < 300000); 
           const showDateSeparator = !previousMsg || !isSameDay(msg.timestamp, previousMsg.timestamp);
 
@@ -329,10 +651,12 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
           const hasReactions = Object.keys(reactions).length > 0;
           const hasAttachment = !!msg.attachment;
           const isSelected = selectedMessageIds.has(msg.id);
+          const quoted = msg.replyTo ? messagesById.get(msg.replyTo) : undefined;
+          const replyCount = threadReplies[msg.id]?.length || 0;
 
           return (
             <React.Fragment key={msg.id}>
-              {showDateSeparator && !searchQuery && (
+              {showDateSeparator && (
                 <div className="flex items-center justify-center my-6">
                   <div className="bg-slate-200 h-px w-8"></div>
                   <span className="mx-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest">{formatDate(msg.timestamp)}</span>
@@ -341,9 +665,12 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
               )}
 
               <div 
+                ref={el => { messageRefs.current[msg.id] = el; }}
+                data-message-id={msg.id}
                 className={`flex flex-col ${isOwn ? 'items-end' : 'items-start'} group relative animate-fade-in 
                   ${isSequence ? 'mt-1' : 'mt-4'}
-                  ${isSelected ? 'bg-indigo-50/40 -mx-6 px-6 py-2' : ''} transition-colors duration-200`}
+                  ${isSelected ? 'bg-indigo-50/40 -mx-6 px-6 py-2' : ''}
+                  ${highlightedId === msg.id ? 'bg-amber-50 -mx-6 px-6 py-2' : ''} transition-colors duration-200`}
                 onClick={() => toggleMessageSelection(msg.id)}
               >
                 {/* Sender Name */}
@@ -376,28 +703,107 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                        <span className="flex items-center gap-2"><i className="fas fa-ban text-xs"></i> This message was deleted</span>
                     ) : (
                       <>
+                        {msg.replyTo && (
+                          <div
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              if (quoted) jumpToMessage(quoted.id);
+                            }}
+                            className={`mb-2 pl-2 border-l-2 text-xs rounded-r
+                              ${isOwn ? 'border-indigo-300 text-indigo-100' : 'border-indigo-400 text-slate-500'}
+                              ${quoted ? 'cursor-pointer hover:opacity-80' : 'opacity-60'}`}
+                            title={quoted ? 'Jump to message' : undefined}
+                          >
+                            {quoted ? (
+                              <>
+                                <span className="font-bold block">{quoted.senderId === currentUser.id ? 'You' : quoted.senderName}</span>
+                                <span className="line-clamp-2">{previewText(quoted)}</span>
+                              </>
+                            ) : (
+                              <span className="italic">Reply to an earlier message</span>
+                            )}
+                          </div>
+                        )}
                         {hasAttachment && renderAttachment(msg.attachment!)}
-                        {msg.content && <p className="leading-relaxed whitespace-pre-wrap">{msg.content}</p>}
+                        {editing?.id === msg.id ? (
+                          <div onClick={(e) => e.stopPropagation()} className="flex flex-col gap-2">
+                            <textarea
+                              autoFocus
+                              rows={Math.min(6, editing.text.split('\n').length)}
+                              className="w-full min-w-[200px] bg-white/95 text-slate-700 rounded-lg p-2 text-sm outline-none resize-none"
+                              value={editing.text}
+                              onChange={e => setEditing({ id: msg.id, text: e.target.value })}
+                              onKeyDown={e => {
+                                if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSaveEdit(); }
+                                if (e.key === 'Escape') setEditing(null);
+                              }}
+                            />
+                            <div className="flex justify-end gap-2 text-[10px] font-bold uppercase">
+                              <button onClick={() => setEditing(null)} className="opacity-70 hover:opacity-100">Cancel</button>
+                              <button onClick={handleSaveEdit} className="hover:underline">Save</button>
+                            </div>
+                          </div>
+                        ) : msg.botReply ? (
+                          <BotReplyBody message={msg} onCancel={() => onCancelBotReply(msg.id)} onDismiss={() => onDismissBotReply(msg.id)} />
+                        ) : (
+                          <>
+                            {msg.content && (msg.emote ? (
+                              <div className="italic flex flex-wrap items-baseline gap-1">
+                                <span className="font-bold">{msg.senderName}</span>
+                                <MessageContent text={msg.content} isOwn={isOwn} />
+                              </div>
+                            ) : <MessageContent text={msg.content} isOwn={isOwn} />)}
+                            {msg.linkPreview && <LinkPreviewCard preview={msg.linkPreview} isOwn={isOwn} />}
+                          </>
+                        )}
                       </>
                     )}
                     
                     <div className={`text-[9px] mt-1 flex items-center gap-1 ${isOwn && !msg.isDeleted ? 'justify-end text-indigo-200' : 'justify-start text-slate-300'}`}>
+                       {!msg.isDeleted && !!msg.revision && (
+                         <button
+                           onClick={(e) => { e.stopPropagation(); setHistoryOpenId(historyOpenId === msg.id ? null : msg.id); }}
+                           className="italic hover:underline"
+                           title={`Edited ${new Date(msg.editedAt || msg.timestamp).toLocaleString()}`}
+                         >
+                           edited
+                         </button>
+                       )}
+                       {!msg.isDeleted && msg.expiresAt && (
+                         <span className="flex items-center gap-0.5" title={`Disappears at ${new Date(msg.expiresAt).toLocaleString()}`}>
+                           <i className="fas fa-hourglass-half"></i>
+                           {formatDuration(msg.expiresAt - now)}
+                         </span>
+                       )}
                        {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                       {isOwn && <i className="fas fa-check-double"></i>}
+                       {isOwn && <DeliveryTicks delivery={msg.delivery} />}
                     </div>
                   </div>
 
                   {/* Hover Actions (Reply & Reaction) - Only show if not selected/deleted */}
-                  {!isSelected && !msg.isDeleted && (
-                    <div className={`absolute top-1/2 -translate-y-1/2 ${isOwn ? '-left-16' : '-right-16'} 
+                  {!isSelected && !msg.isDeleted && editing?.id !== msg.id && (
+                    <div className={`absolute top-1/2 -translate-y-1/2 ${isOwn ? (msg.type === 'text' ? '-left-24' : '-left-16') : '-right-16'} 
                       flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-all z-10`}>
                       
+                      {/* Edit Button */}
+                      {isOwn && msg.type === 'text' && (
+                        <button 
+                          onClick={(e) => handleStartEdit(msg, e)}
+                          className="w-6 h-6 rounded-full bg-slate-100 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 
+                          flex items-center justify-center shadow-sm"
+                          title="Edit"
+                        >
+                          <i className="fas fa-pen text-[10px]"></i>
+                        </button>
+                      )}
+
+
                       {/* Reply Button */}
                       <button 
                         onClick={(e) => handleReply(msg, e)}
                         className="w-6 h-6 rounded-full bg-slate-100 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 
                         flex items-center justify-center shadow-sm"
-                        title="Quote/Reply"
+                        title="Reply"
                       >
                         <i className="fas fa-reply text-[10px]"></i>
                       </button>
@@ -436,6 +842,32 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                   )}
                 </div>
 
+                {/* Revision History */}
+                {historyOpenId === msg.id && msg.history && !msg.isDeleted && (
+                  <div onClick={(e) => e.stopPropagation()} className={`mt-1 w-64 bg-white border border-slate-200 rounded-xl shadow-lg p-3 animate-fade-in ${isOwn ? 'self-end' : 'self-start'}`}>
+                    <div className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mb-2">Previous versions</div>
+                    <div className="space-y-2 max-h-40 overflow-y-auto custom-scrollbar">
+                      {[...msg.history].reverse().map(rev => (
+                        <div key={`${rev.revision}-${rev.timestamp}`} className="border-l-2 border-slate-200 pl-2">
+                          <div className="text-[9px] text-slate-400">
+                            {rev.revision === 0 ? 'Original' : `Revision ${rev.revision}`} · {new Date(rev.timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                          </div>
+                          <p className="text-xs text-slate-600 whitespace-pre-wrap break-words">{rev.content}</p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {replyCount > 0 && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); setThreadRootId(msg.id); }}
+                    className="mt-1 text-[10px] font-bold text-indigo-500 hover:text-indigo-700 flex items-center gap-1"
+                  >
+                    <i className="fas fa-comments"></i> {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+                  </button>
+                )}
+
                 {/* Display Reactions */}
                 {!msg.isDeleted && hasReactions && (
                   <div className={`flex flex-wrap gap-1 mt-1 ${isOwn ? 'justify-end' : 'justify-start'} max-w-[80%]`}>
@@ -463,7 +895,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
         })}
         
         {/* Advanced Typing Indicator */}
-        {typingUsers.length > 0 && !searchQuery && (
+        {typingUsers.length > 0 && (
            <div className="flex items-center gap-3 mt-4 animate-fade-in pl-2">
               <div className="bg-slate-200 rounded-full px-3 py-2 flex gap-1 items-center h-8">
                  <div className="w-1.5 h-1.5 bg-slate-500 rounded-full animate-[bounce_1s_infinite_0ms]"></div>
@@ -477,8 +909,76 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
         )}
       </div>
 
+      {threadRootId && messagesById.get(threadRootId) && (
+        <ThreadPanel
+          root={messagesById.get(threadRootId)!}
+          replies={threadReplies[threadRootId] || []}
+          currentUser={currentUser}
+          onReply={content => onSendMessage(content, undefined, threadRootId)}
+          onJumpTo={jumpToMessage}
+          onClose={() => setThreadRootId(null)}
+        />
+      )}
+
+      {replyingTo && (
+        <div className="px-4 pt-3 bg-white border-t flex items-center gap-3 animate-slide-in-bottom">
+          <div className="flex-1 min-w-0 pl-3 border-l-2 border-indigo-500">
+            <div className="text-[10px] font-bold text-indigo-500 uppercase">
+              Replying to {replyingTo.senderId === currentUser.id ? 'yourself' : replyingTo.senderName}
+            </div>
+            <div className="text-xs text-slate-500 truncate">{previewText(replyingTo)}</div>
+          </div>
+          <button onClick={() => setReplyingTo(null)} className="text-slate-400 hover:text-slate-600" title="Cancel reply">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+      )}
+
+      {composedUrl && (
+        <div className="px-4 pt-3 bg-white border-t flex items-center gap-3">
+          {linkPreview && linkPreview.url === composedUrl ? (
+            <LinkPreviewCard preview={linkPreview} onRemove={() => setLinkPreview(null)} />
+          ) : (
+            <button
+              type="button"
+              onClick={handleAddPreview}
+              disabled={previewLoading}
+              className="text-[10px] font-bold uppercase tracking-wider text-indigo-500 hover:text-indigo-700"
+              title="Your device loads the page once and sends the card with the message; others never contact the site"
+            >
+              {previewLoading ? <i className="fas fa-circle-notch fa-spin mr-1"></i> : <i className="fas fa-link mr-1"></i>}
+              Add link preview
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Input */}
-      <form onSubmit={handleSubmit} className="p-4 bg-white border-t flex items-center gap-3 relative z-20">
+      <form onSubmit={handleSubmit} className="p-4 bg-white border-t flex items-end gap-3 relative z-20">
+        {suggestions.length > 0 && (
+          <div className="absolute bottom-full left-4 right-4 mb-2 bg-white border border-slate-200 rounded-xl shadow-lg overflow-hidden">
+            {suggestions.map((s, i) => (
+              <button
+                key={s.name}
+                type="button"
+                onMouseDown={e => { e.preventDefault(); handlePickSuggestion(s.name); }}
+                className={`w-full text-left px-4 py-2 flex items-baseline gap-3 text-xs ${i === suggestionIndex ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+              >
+                <span className="font-mono font-bold text-indigo-600">{s.usage}</span>
+                <span className="text-slate-400 truncate">{s.description}</span>
+              </button>
+            ))}
+          </div>
+        )}
+        {commandError && (
+          <div className="absolute bottom-full left-4 right-4 mb-2 px-4 py-2 bg-red-50 border border-red-200 text-red-600 text-xs rounded-xl flex items-center gap-2">
+            <i className="fas fa-circle-exclamation"></i>
+            <span className="flex-1">{commandError}</span>
+            <button type="button" onClick={() => setCommandError(null)} className="text-red-400 hover:text-red-600" title="Dismiss">
+              <i className="fas fa-times"></i>
+            </button>
+          </div>
+        )}
         <input 
           type="file" 
           ref={fileInputRef} 
@@ -490,16 +990,32 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
           type="button"
           onClick={() => fileInputRef.current?.click()}
           className="w-11 h-11 bg-slate-100 text-slate-500 rounded-xl flex items-center justify-center hover:bg-slate-200 hover:text-slate-700 transition-all"
-          title="Attach file (Max 1MB)"
+          title="Attach file (Max 100MB)"
         >
            {uploading ? <i className="fas fa-circle-notch fa-spin"></i> : <i className="fas fa-paperclip"></i>}
         </button>
-        <input 
-          type="text"
-          className="flex-1 bg-slate-100 border-none rounded-xl px-5 py-3 text-sm focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
-          placeholder="Type a message..."
+        <textarea
+          ref={inputRef}
+          rows={Math.min(inputText.split('\n').length, 8)}
+          className="flex-1 bg-slate-100 border-none rounded-xl px-5 py-3 text-sm focus:ring-2 focus:ring-indigo-500 outline-none transition-all resize-none custom-scrollbar"
+          placeholder="Type a message, or / for commands... (Markdown supported, Shift+Enter for a new line)"
           value={inputText}
           onChange={handleInputChange}
+          onKeyDown={e => {
+            if (suggestions.length > 0 && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+              e.preventDefault();
+              setSuggestionIndex(i => (i + (e.key === 'ArrowDown' ? 1 : suggestions.length - 1)) % suggestions.length);
+              return;
+            }
+            // Enter completes a partial name, and runs one that's already complete
+            const partial = !suggestions.some(s => `/${s.name}` === inputText.trim());
+            if (suggestions.length > 0 && (e.key === 'Tab' || (e.key === 'Enter' && partial))) {
+              e.preventDefault();
+              handlePickSuggestion(suggestions[Math.min(suggestionIndex, suggestions.length - 1)].name);
+              return;
+            }
+            if (e.key === 'Enter' && !e.shiftKey) handleSubmit(e);
+          }}
           onFocus={() => setSelectedMessageIds(new Set())} 
         />
         <button 
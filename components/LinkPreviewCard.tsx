@@ -0,0 +1,62 @@
+import React from 'react';
+import { LinkPreview } from '../types.ts';
+import { LinkPreviewer } from '../services/linkPreview.ts';
+
+interface LinkPreviewCardProps {
+  preview: LinkPreview;
+  isOwn?: boolean;
+  onRemove?: () => void;
+}
+
+// Everything shown comes from the message itself; images are only drawn from data URIs, so nothing is fetched
+const LinkPreviewCard: React.FC<LinkPreviewCardProps> = ({ preview, isOwn, onRemove }) => {
+  let url: URL;
+  try {
+    url = new URL(preview.url);
+  } catch (e) {
+    return null;
+  }
+  // The card arrives from another member; only web links are ever made clickable
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+  const host = url.hostname;
+
+  return (
+    <a
+      href={preview.url}
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      onClick={e => e.stopPropagation()}
+      className={`flex items-stretch gap-3 mt-2 rounded-lg overflow-hidden border text-left max-w-sm
+        ${isOwn ? 'bg-white/10 border-white/20' : 'bg-slate-50 border-slate-200'}`}
+    >
+      {preview.image && LinkPreviewer.isSafeImage(preview.image) && (
+        <img src={preview.image} alt="" className="w-20 object-cover flex-shrink-0" />
+      )}
+      <div className="flex-1 min-w-0 py-2 pr-3 first:pl-3">
+        {/* The sender chose siteName; only the real host says where the link goes */}
+        <p className={`text-[10px] font-bold uppercase tracking-wider truncate ${isOwn ? 'text-indigo-200' : 'text-slate-400'}`}>
+          {host}
+          {preview.siteName && preview.siteName.toLowerCase() !== host && (
+            <span className="font-normal normal-case tracking-normal"> · {preview.siteName}</span>
+          )}
+        </p>
+        <p className={`text-xs font-bold truncate ${isOwn ? 'text-white' : 'text-slate-700'}`}>{preview.title}</p>
+        {preview.description && (
+          <p className={`text-[11px] line-clamp-2 ${isOwn ? 'text-indigo-100' : 'text-slate-500'}`}>{preview.description}</p>
+        )}
+      </div>
+      {onRemove && (
+        <button
+          type="button"
+          onClick={e => { e.preventDefault(); e.stopPropagation(); onRemove(); }}
+          className="px-2 text-slate-400 hover:text-slate-600"
+          title="Remove preview"
+        >
+          <i className="fas fa-times text-xs"></i>
+        </button>
+      )}
+    </a>
+  );
+};
+
+export default LinkPreviewCard;
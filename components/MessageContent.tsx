@@ -0,0 +1,94 @@
+import React, { useMemo, useState } from 'react';
+import { parseMarkdown, Block, Inline } from '../utils/markdown.ts';
+import { highlight, TokenKind } from '../utils/highlight.ts';
+
+interface MessageContentProps {
+  text: string;
+  isOwn: boolean;
+}
+
+const TOKEN_CLASS: { [kind in TokenKind]: string } = {
+  keyword: 'text-violet-300',
+  string: 'text-emerald-300',
+  comment: 'text-slate-500 italic',
+  number: 'text-amber-300',
+  plain: '',
+};
+
+const CodeBlock: React.FC<{ language: string; text: string }> = ({ language, text }) => {
+  const [copied, setCopied] = useState(false);
+  const tokens = useMemo(() => highlight(text, language), [text, language]);
+
+  const handleCopy = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    await navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="my-1.5 rounded-lg overflow-hidden bg-slate-900 text-slate-100 text-left">
+      <div className="flex items-center justify-between px-3 py-1 bg-slate-800 text-[10px] font-bold uppercase tracking-wider text-slate-400">
+        <span>{language || 'code'}</span>
+        <button onClick={handleCopy} className="hover:text-white" title="Copy code">
+          <i className={`fas ${copied ? 'fa-check' : 'fa-copy'}`}></i>
+        </button>
+      </div>
+      <pre className="px-3 py-2 overflow-x-auto text-xs leading-relaxed custom-scrollbar"><code>
+        {tokens.map((token, i) => token.kind === 'plain' ? token.text : <span key={i} className={TOKEN_CLASS[token.kind]}>{token.text}</span>)}
+      </code></pre>
+    </div>
+  );
+};
+
+// Renders the tree from parseMarkdown as elements; message text never reaches the DOM as markup
+const MessageContent: React.FC<MessageContentProps> = ({ text, isOwn }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+
+  const renderInline = (nodes: Inline[]): React.ReactNode[] => nodes.map((node, i) => {
+    switch (node.kind) {
+      case 'text': return <React.Fragment key={i}>{node.text}</React.Fragment>;
+      case 'break': return <br key={i} />;
+      case 'strong': return <strong key={i}>{renderInline(node.children)}</strong>;
+      case 'em': return <em key={i}>{renderInline(node.children)}</em>;
+      case 'code':
+        return <code key={i} className={`px-1 py-0.5 rounded font-mono text-[0.85em] ${isOwn ? 'bg-white/20' : 'bg-slate-100 text-rose-600'}`}>{node.text}</code>;
+      case 'link':
+        return (
+          <a
+            key={i}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            onClick={e => e.stopPropagation()}
+            className={`underline break-all ${isOwn ? 'text-white' : 'text-indigo-600'}`}
+          >
+            {node.href}
+          </a>
+        );
+    }
+  });
+
+  const renderBlocks = (nodes: Block[]): React.ReactNode[] => nodes.map((block, i) => {
+    switch (block.kind) {
+      case 'paragraph': return <p key={i} className="leading-relaxed break-words">{renderInline(block.children)}</p>;
+      case 'code': return <CodeBlock key={i} language={block.language} text={block.text} />;
+      case 'quote':
+        return (
+          <blockquote key={i} className={`pl-2.5 my-1 border-l-2 ${isOwn ? 'border-white/50 text-indigo-100' : 'border-slate-300 text-slate-500'}`}>
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+      case 'list': {
+        const items = block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>);
+        return block.ordered
+          ? <ol key={i} start={block.start} className="list-decimal pl-5 my-1 space-y-0.5">{items}</ol>
+          : <ul key={i} className="list-disc pl-5 my-1 space-y-0.5">{items}</ul>;
+      }
+    }
+  });
+
+  return <div className="space-y-1">{renderBlocks(blocks)}</div>;
+};
+
+export default MessageContent;
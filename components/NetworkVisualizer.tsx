@@ -1,7 +1,10 @@
 import React, { useEffect, useState } from 'react';
+import { TopologySnapshot } from '../types.ts';
+import { RELAY_NODE_ID } from '../services/relayTransport.ts';
 
 interface NetworkVisualizerProps {
   activity: 'idle' | 'sending' | 'receiving';
+  topology?: TopologySnapshot;
 }
 
 interface Node {
@@ -16,67 +19,83 @@ interface Node {
 interface Link {
   from: string;
   to: string;
-  type: 'bluetooth' | 'tor';
+  direct: boolean; // This node holds the connection itself
 }
 
-const NetworkVisualizer: React.FC<NetworkVisualizerProps> = ({ activity }) => {
-  const [packets, setPackets] = useState<{ id: number; path: string; color: string; delay: number }[]>([]);
-
-  const nodes: Node[] = [
-    { id: 'you', x: 50, y: 50, label: 'You', icon: 'fa-user', color: 'cyan' },
-    { id: 'peerA', x: 20, y: 20, label: 'Peer A', icon: 'fa-bluetooth-b', color: 'cyan' },
-    { id: 'peerB', x: 80, y: 15, label: 'Peer B', icon: 'fa-bluetooth-b', color: 'cyan' },
-    { id: 'peerC', x: 25, y: 80, label: 'Peer C', icon: 'fa-bluetooth-b', color: 'cyan' },
-    { id: 'gateway', x: 75, y: 55, label: 'Gateway', icon: 'fa-wifi', color: 'yellow' },
-    { id: 'relay', x: 90, y: 35, label: 'Tor Relay', icon: 'fa-globe', color: 'purple' },
-    { id: 'exit', x: 90, y: 75, label: 'Tor Exit', icon: 'fa-globe', color: 'purple' },
-  ];
-
-  const links: Link[] = [
-    { from: 'you', to: 'peerA', type: 'bluetooth' },
-    { from: 'you', to: 'peerB', type: 'bluetooth' },
-    { from: 'peerA', to: 'peerB', type: 'bluetooth' }, // Mesh link
-    { from: 'you', to: 'peerC', type: 'bluetooth' },
-    { from: 'you', to: 'gateway', type: 'bluetooth' },
-    { from: 'gateway', to: 'relay', type: 'tor' },
-    { from: 'relay', to: 'exit', type: 'tor' },
-  ];
+// Host (or relay server) sits in the middle of a star; a mesh spreads everyone on one ring
+const layoutNodes = (topology: TopologySnapshot): Node[] => {
+  const centered = topology.mode === 'star' && topology.hostId ? topology.hostId : null;
+  const ring = topology.members.filter(m => m.userId !== centered);
+  const nodes: Node[] = ring.map((member, i) => {
+    const angle = (2 * Math.PI * i) / ring.length - Math.PI / 2;
+    return {
+      id: member.userId,
+      x: 50 + 35 * Math.cos(angle),
+      y: 50 + 35 * Math.sin(angle),
+      label: member.userId === topology.selfId ? 'You' : member.username,
+      icon: member.userId === topology.hostId ? 'fa-server' : 'fa-user',
+      color: member.userId === topology.hostId ? 'yellow' : member.userId === topology.selfId ? 'cyan' : 'purple',
+    };
+  });
+  const host = topology.members.find(m => m.userId === centered);
+  if (topology.mode === 'relay') {
+    nodes.push({ id: RELAY_NODE_ID, x: 50, y: 50, label: 'Relay Server', icon: 'fa-cloud', color: 'yellow' });
+  } else if (host) {
+    nodes.push({
+      id: host.userId,
+      x: 50,
+      y: 50,
+      label: host.userId === topology.selfId ? 'You' : host.username,
+      icon: 'fa-server',
+      color: 'yellow',
+    });
+  }
+  return nodes;
+};
 
-  useEffect(() => {
-    if (activity === 'sending') {
-      const newPackets = [
-        { id: Date.now() + 1, path: 'you-peerA', color: '#22d3ee', delay: 0 },
-        { id: Date.now() + 2, path: 'you-peerB', color: '#22d3ee', delay: 0.1 },
-        { id: Date.now() + 3, path: 'you-peerC', color: '#22d3ee', delay: 0.2 },
-        { id: Date.now() + 4, path: 'you-gateway', color: '#facc15', delay: 0 },
-        { id: Date.now() + 5, path: 'gateway-relay', color: '#a855f7', delay: 0.5 },
-        { id: Date.now() + 6, path: 'relay-exit', color: '#a855f7', delay: 1.0 },
-      ];
-      setPackets(prev => [...prev, ...newPackets]);
-
-      // Cleanup packets
-      setTimeout(() => {
-        setPackets(prev => prev.filter(p => p.id < Date.now()));
-      }, 2000);
-    }
-  }, [activity]);
+const layoutLinks = (topology: TopologySnapshot): Link[] => {
+  const ids = topology.members.map(m => m.userId);
+  const isDirect = (a: string, b: string) =>
+    (a === topology.selfId && topology.directLinks.includes(b)) || (b === topology.selfId && topology.directLinks.includes(a));
+  if (topology.mode === 'relay') {
+    return ids.map(id => ({ from: RELAY_NODE_ID, to: id, direct: isDirect(RELAY_NODE_ID, id) }));
+  }
+  if (topology.mode === 'star') {
+    const hostId = topology.hostId;
+    if (!hostId) return [];
+    return ids.filter(id => id !== hostId).map(id => ({ from: hostId, to: id, direct: isDirect(hostId, id) }));
+  }
+  const links: Link[] = [];
+  ids.forEach((a, i) => ids.slice(i + 1).forEach(b => links.push({ from: a, to: b, direct: isDirect(a, b) })));
+  return links;
+};
 
-  const getNode = (id: string) => nodes.find(n => n.id === id)!;
+const NetworkVisualizer: React.FC<NetworkVisualizerProps> = ({ activity, topology }) => {
+  const [packets, setPackets] = useState<{ id: number; from: string; to: string; color: string; delay: number }[]>([]);
 
-  const getColor = (c: string) => {
-    switch (c) {
-      case 'cyan': return '#22d3ee';
-      case 'purple': return '#a855f7';
-      case 'yellow': return '#facc15';
-      default: return '#ffffff';
-    }
-  };
+  const nodes = topology ? layoutNodes(topology) : [];
+  const links = topology ? layoutLinks(topology) : [];
+  const peerCount = topology ? topology.members.length - 1 : 0;
+
+  useEffect(() => {
+    if (!topology || activity === 'idle') return;
+    // Packets only travel over links this node actually holds
+    const newPackets = topology.directLinks.map((peerId, i) => ({
+      id: Date.now() + i,
+      from: activity === 'sending' ? topology.selfId : peerId,
+      to: activity === 'sending' ? peerId : topology.selfId,
+      color: activity === 'sending' ? '#22d3ee' : '#a855f7',
+      delay: i * 0.1,
+    }));
+    setPackets(prev => [...prev, ...newPackets]);
+
+    // Cleanup packets
+    setTimeout(() => {
+      setPackets(prev => prev.filter(p => p.id < Date.now()));
+    }, 2000);
+  }, [activity]);
 
-  const getPathD = (fromId: string, toId: string) => {
-    const start = getNode(fromId);
-    const end = getNode(toId);
-    return `M ${start.x} ${start.y} L ${end.x} ${end.y}`;
-  };
+  const getNode = (id: string) => nodes.find(n => n.id === id);
 
   return (
     <div className="hidden xl:flex flex-col w-80 bg-slate-900 border-l border-slate-800 shadow-2xl z-30 relative overflow-hidden">
@@ -84,7 +103,7 @@ const NetworkVisualizer: React.FC<NetworkVisualizerProps> = ({ activity }) => {
       <div className="p-4 border-b border-slate-800 bg-slate-900/50 backdrop-blur z-10">
         <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
           <span className="w-2 h-2 rounded-full bg-cyan-400 animate-pulse"></span>
-          Mesh Topology
+          {topology?.mode === 'mesh' ? 'Mesh Topology' : topology?.mode === 'relay' ? 'Relay Topology' : 'Star Topology'}
         </h3>
       </div>
 
@@ -107,62 +126,24 @@ const NetworkVisualizer: React.FC<NetworkVisualizerProps> = ({ activity }) => {
           </defs>
 
           {/* Links */}
-          {links.map((link, i) => {
+          {links.map(link => {
             const start = getNode(link.from);
             const end = getNode(link.to);
-            const isTor = link.type === 'tor';
-            const strokeColor = isTor ? '#a855f7' : '#22d3ee';
+            if (!start || !end) return null;
             
             return (
-              <g key={i}>
+              <g key={`${link.from}-${link.to}`}>
                 <line 
                   x1={`${start.x}%`} y1={`${start.y}%`} 
                   x2={`${end.x}%`} y2={`${end.y}%`}
-                  stroke={strokeColor} 
+                  stroke={link.direct ? '#22d3ee' : '#a855f7'} 
                   strokeWidth="1.5" 
                   strokeDasharray="4 4"
-                  opacity="0.3"
+                  opacity={link.direct ? 0.6 : 0.2}
                 />
               </g>
             );
           })}
-
-          {/* Animated Packets */}
-          {packets.map((pkt) => {
-             const [from, to] = pkt.path.split('-');
-             const pathD = getPathD(from, to).replace(/(\d+) /g, "$1% "); // Hacky way to keep percentages for d attribute if supported or convert logic.
-             // SVG paths in 'd' usually need absolute units or viewbox relative. 
-             // Let's use coordinate interpolation for simpler React animation or just SVG animateMotion with path references.
-             
-             // Simpler approach: Calculate numeric coords for animateMotion
-             // Assuming 320px width (w-80) and rough height 600px. 
-             // But simpler is to use percentage based coordinates in line and circle.
-             
-             // Correct approach for SVG AnimateMotion with percentages is tricky. 
-             // We will draw invisible paths for animation.
-             
-             const startNode = getNode(from);
-             const endNode = getNode(to);
-             
-             return (
-               <circle key={pkt.id} r="3" fill={pkt.color} filter="url(#glow)">
-                 <animate 
-                    attributeName="opacity"
-                    values="0;1;1;0"
-                    dur="1.5s"
-                    begin={`${pkt.delay}s`}
-                    fill="freeze"
-                 />
-                 <animateMotion 
-                    dur="1.5s" 
-                    begin={`${pkt.delay}s`}
-                    fill="freeze"
-                    path={`M ${startNode.x*3.2} ${startNode.y*6} L ${endNode.x*3.2} ${endNode.y*6}`} // Rough conversion for ViewBox matching if we set ViewBox
-                 />
-                 {/* Fallback to simple CSS transition logic if SVG path math is annoying, but let's try ViewBox */}
-               </circle>
-             )
-          })}
         </svg>
 
         {/* Nodes (HTML for easier styling/icons) */}
@@ -176,7 +157,7 @@ const NetworkVisualizer: React.FC<NetworkVisualizerProps> = ({ activity }) => {
               ${node.color === 'cyan' ? 'border-cyan-500/50 shadow-cyan-500/20' : ''}
               ${node.color === 'purple' ? 'border-purple-500/50 shadow-purple-500/20' : ''}
               ${node.color === 'yellow' ? 'border-yellow-500/50 shadow-yellow-500/20' : ''}
-              ${node.id === 'you' && activity === 'sending' ? 'scale-110 border-white shadow-cyan-500/50' : ''}
+              ${node.id === topology?.selfId && activity === 'sending' ? 'scale-110 border-white shadow-cyan-500/50' : ''}
             `}>
               <i className={`fas ${node.icon} text-lg
                 ${node.color === 'cyan' ? 'text-cyan-400' : ''}
@@ -198,9 +179,9 @@ const NetworkVisualizer: React.FC<NetworkVisualizerProps> = ({ activity }) => {
         {/* SVG Overlay for Packets with correct ViewBox scaling */}
         <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
            {packets.map((pkt) => {
-             const [from, to] = pkt.path.split('-');
-             const start = getNode(from);
-             const end = getNode(to);
+             const start = getNode(pkt.from);
+             const end = getNode(pkt.to);
+             if (!start || !end) return null;
              return (
                <circle key={pkt.id} r="1.5" fill={pkt.color}>
                  <animateMotion 
@@ -226,7 +207,7 @@ const NetworkVisualizer: React.FC<NetworkVisualizerProps> = ({ activity }) => {
           </div>
           <div className="bg-slate-800/50 rounded-lg p-2 border border-slate-700">
             <div className="text-[9px] text-slate-500 uppercase font-bold">Peers</div>
-            <div className="text-purple-400 font-mono text-sm">4 Active</div>
+            <div className="text-purple-400 font-mono text-sm">{peerCount} Active</div>
           </div>
         </div>
       </div>
@@ -1,19 +1,81 @@
-import React, { useState } from 'react';
-import { User } from '../types.ts';
+import React, { useState, useEffect } from 'react';
+import { User, RekeyEvent, KeyAnnouncement, TrustRecord, RoomSummary, AuditEntry, RoomRoles, RoomRole, RoleAction, JoinAccess, PresenceRecord, PresenceState, BotConsentSummary, SessionStats } from '../types.ts';
+import { RoleStore } from '../services/roleStore.ts';
+import { RoomAccess } from '../services/roomAccess.ts';
+import { TrustStore } from '../services/trustStore.ts';
+import { TIMER_OPTIONS } from '../services/disappearingTimers.ts';
+import { CryptoService, CRYPTO_SUITE } from '../services/cryptoService.ts';
+import { BotRegistry, triggersOf } from '../services/botRegistry.ts';
+import VerificationPanel from './VerificationPanel.tsx';
+import { formatDuration, formatBytes } from '../utils/formatters.ts';
+import { downloadJson } from '../utils/download.ts';
 
 interface SidebarProps {
   user: User | null;
   activeRoom: string | null;
-  peer: User | null;
+  rooms: RoomSummary[];
+  onSwitchRoom: (roomId: string) => void;
+  onJoinRoom: (roomId: string, access?: JoinAccess) => void;
+  onCreateInvite: () => Promise<string>;
+  onLeaveRoom: (roomId: string) => void;
+  peers: KeyAnnouncement[];
+  members: { [userId: string]: PresenceRecord };
+  trust: { [userId: string]: TrustRecord };
+  onSetVerified: (userId: string, verified: boolean) => void;
   isBotEnabled: boolean;
   setIsBotEnabled: (v: boolean) => void;
-  sessionStats: any;
+  botConsent: BotConsentSummary;
+  onSetBotConsent: (granted: boolean) => void;
+  sessionStats: SessionStats;
+  rekeyHistory: RekeyEvent[];
+  auditLog: AuditEntry[];
+  roles?: RoomRoles;
+  onRoleAction: (action: RoleAction, userId: string) => void;
+  retention: number;
+  onSetRetention: (limit: number) => void;
+  disappearingTimer: number;
+  onSetTimer: (ttl: number) => void;
+  onWipeRoom: () => void;
   connectionStatus?: { status: string; label: string };
   onLogout: () => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ user, activeRoom, peer, isBotEnabled, setIsBotEnabled, sessionStats, connectionStatus, onLogout }) => {
+const RETENTION_OPTIONS = [
+  { value: 100, label: '100 msgs' },
+  { value: 1000, label: '1,000 msgs' },
+  { value: 10000, label: '10,000 msgs' },
+  { value: 0, label: 'Unlimited' },
+];
+
+const PRESENCE_DOT: { [state in PresenceState]: string } = {
+  online: 'bg-emerald-500',
+  away: 'bg-amber-400',
+  offline: 'bg-slate-300',
+};
+
+const KeyFingerprint: React.FC<{ publicKey?: string; className: string }> = ({ publicKey, className }) => {
+  const [fingerprint, setFingerprint] = useState('');
+
+  useEffect(() => {
+    if (publicKey) CryptoService.fingerprint(publicKey).then(setFingerprint);
+  }, [publicKey]);
+
+  return <p className={`text-[9px] font-mono truncate ${className}`}>{fingerprint || '...'}</p>;
+};
+
+const RoleBadge: React.FC<{ role: RoomRole }> = ({ role }) => {
+  if (role === 'owner') return <i className="fas fa-crown text-[10px] text-amber-500" title="Room owner"></i>;
+  if (role === 'moderator') return <i className="fas fa-shield-halved text-[10px] text-indigo-500" title="Moderator"></i>;
+  return null;
+};
+
+const Sidebar: React.FC<SidebarProps> = ({ user, activeRoom, rooms, onSwitchRoom, onJoinRoom, onCreateInvite, onLeaveRoom, peers, members, trust, onSetVerified, isBotEnabled, setIsBotEnabled, botConsent, onSetBotConsent, sessionStats, rekeyHistory, auditLog, roles, onRoleAction, retention, onSetRetention, disappearingTimer, onSetTimer, onWipeRoom, connectionStatus, onLogout }) => {
   const [showAudit, setShowAudit] = useState(false);
+  const [verifyingId, setVerifyingId] = useState<string | null>(null);
+  const [newRoom, setNewRoom] = useState('');
+  const [newRoomPassword, setNewRoomPassword] = useState('');
+  const [inviteCopied, setInviteCopied] = useState(false);
+  const verifyingPeer = peers.find(p => p.userId === verifyingId);
 
   // Helper to determine status visuals
   const getStatusConfig = (status: string) => {
@@ -67,6 +129,70 @@ const Sidebar: React.FC<SidebarProps> = ({ user, activeRoom, peer, isBotEnabled,
   };
 
   const statusConfig = getStatusConfig(connectionStatus?.status || 'disconnected');
+  const currentEpoch = rekeyHistory.length > 0 ? rekeyHistory[rekeyHistory.length - 1].epoch : null;
+  const roomAudit = auditLog.filter(entry => entry.roomId === activeRoom && entry.category !== 'bot_disclosure');
+  const roomDisclosures = auditLog.filter(entry => entry.roomId === activeRoom && entry.category === 'bot_disclosure');
+  const roleOf = (userId?: string): RoomRole => (roles && userId ? RoleStore.roleOf(roles, userId) : 'member');
+  const myRole = roleOf(user?.id);
+  const bannedNames = (roles?.banned || []).map(userId => ({
+    userId,
+    username: [...(roles?.log || [])].reverse().find(c => c.targetId === userId)?.targetName || userId,
+  }));
+  // Members seen here before who aren't connected now, most recent first
+  const offlineMembers = Object.values<PresenceRecord>(members)
+    .filter(m => m.state === 'offline' && !peers.some(p => p.userId === m.userId) && !roles?.banned.includes(m.userId))
+    .sort((a, b) => b.lastSeen - a.lastSeen);
+
+  const handleJoinSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newRoom.trim()) return;
+    // The field takes pasted invite links as well as room names
+    const invite = RoomAccess.parseInvite(newRoom);
+    if (invite) {
+      onJoinRoom(invite.roomId, { inviteToken: invite.token });
+    } else {
+      onJoinRoom(newRoom.trim(), { password: newRoomPassword || undefined });
+    }
+    setNewRoom('');
+    setNewRoomPassword('');
+  };
+
+  // Entries for every room this session has seen, not just the open one
+  const handleExportAudit = () => {
+    downloadJson(`ciphertalk-audit-${new Date().toISOString().slice(0, 10)}.json`, {
+      exportedAt: Date.now(),
+      activeRoom,
+      sessionStats,
+      suite: CRYPTO_SUITE,
+      entries: auditLog,
+    });
+  };
+
+  const handleCopyInvite = async () => {
+    const link = await onCreateInvite();
+    if (!link) return;
+    await navigator.clipboard.writeText(link);
+    setInviteCopied(true);
+    setTimeout(() => setInviteCopied(false), 2000);
+  };
+
+  const describePreview = (room: RoomSummary) => {
+    const msg = room.lastMessage;
+    if (!msg) return 'No messages yet';
+    if (msg.type === 'system') return msg.content;
+    const body = msg.content || (msg.attachment ? `Sent ${msg.attachment.name}` : '');
+    return msg.senderId === user?.id ? `You: ${body}` : `${msg.senderName}: ${body}`;
+  };
+
+  const describeRekey = (rekey: RekeyEvent) => {
+    switch (rekey.reason) {
+      case 'created': return 'Room created';
+      case 'join': return `${rekey.username || 'Peer'} joined`;
+      case 'leave': return `${rekey.username || 'Peer'} left`;
+      case 'failover': return 'Host re-elected';
+      case 'removed': return `${rekey.username || 'Peer'} removed`;
+    }
+  };
 
   return (
     <div className="w-80 bg-white border-r border-slate-200 flex flex-col shadow-sm z-20 relative glass-sidebar">
@@ -122,37 +248,179 @@ const Sidebar: React.FC<SidebarProps> = ({ user, activeRoom, peer, isBotEnabled,
       </div>
 
       <div className="flex-1 overflow-y-auto p-4 space-y-6 custom-scrollbar">
+        <div>
+          <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest px-2 mb-3">Rooms</h3>
+          <div className="space-y-1">
+            {rooms.map(room => {
+              const isActive = room.roomId === activeRoom;
+              return (
+                <div
+                  key={room.roomId}
+                  onClick={() => onSwitchRoom(room.roomId)}
+                  className={`group flex items-center gap-3 p-3 rounded-2xl cursor-pointer transition-all border
+                    ${isActive ? 'bg-indigo-50 border-indigo-100' : 'border-transparent hover:bg-slate-50'}`}
+                >
+                  <div className={`w-8 h-8 rounded-lg flex items-center justify-center text-sm shrink-0
+                    ${isActive ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-400'}`}>
+                    <i className="fas fa-hashtag"></i>
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className={`text-sm truncate ${room.unread > 0 ? 'font-bold text-slate-800' : 'font-semibold text-slate-600'}`}>{room.roomId}</p>
+                      {room.unread > 0 && (
+                        <span className="min-w-[18px] h-[18px] px-1 rounded-full bg-indigo-600 text-white text-[10px] font-bold flex items-center justify-center">
+                          {room.unread > 99 ? '99+' : room.unread}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-[11px] text-slate-400 truncate">{describePreview(room)}</p>
+                  </div>
+                  {rooms.length > 1 && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); onLeaveRoom(room.roomId); }}
+                      className="opacity-0 group-hover:opacity-100 text-slate-300 hover:text-rose-500 transition-all"
+                      title="Leave room"
+                    >
+                      <i className="fas fa-right-from-bracket text-xs"></i>
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <form onSubmit={handleJoinSubmit} className="mt-2 space-y-2 px-1">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={newRoom}
+                onChange={e => setNewRoom(e.target.value)}
+                placeholder="Join a room or paste an invite..."
+                className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button type="submit" className="w-8 h-8 rounded-xl bg-slate-100 text-slate-500 hover:bg-indigo-600 hover:text-white transition-all" title="Join room">
+                <i className="fas fa-plus text-xs"></i>
+              </button>
+            </div>
+            {newRoom.trim() && !RoomAccess.parseInvite(newRoom) && (
+              <input
+                type="password"
+                value={newRoomPassword}
+                onChange={e => setNewRoomPassword(e.target.value)}
+                placeholder="Room password (if any)"
+                className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            )}
+          </form>
+          <button
+            onClick={handleCopyInvite}
+            className="mt-2 w-full flex items-center justify-center gap-2 py-2 rounded-xl text-[10px] font-bold uppercase tracking-wider text-indigo-500 hover:bg-indigo-50 transition-all"
+          >
+            <i className={`fas ${inviteCopied ? 'fa-check' : 'fa-link'}`}></i>
+            {inviteCopied ? 'Invite link copied' : 'Copy one-time invite'}
+          </button>
+        </div>
+
         <div>
           <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest px-2 mb-3">Verified Nodes</h3>
           <div className="space-y-2">
             <div className="group relative flex items-center gap-3 p-3 bg-white rounded-2xl border border-slate-100 hover:border-indigo-100 hover:bg-indigo-50/20 transition-all cursor-default">
               <img src={user?.avatar} className="w-10 h-10 rounded-full bg-slate-100" alt="User avatar" />
               <div className="flex-1 min-w-0">
-                <p className="text-sm font-bold text-slate-800 truncate">{user?.username} <span className="text-[10px] text-indigo-400 font-normal ml-1">Local</span></p>
-                <p className="text-[9px] text-slate-400 font-mono truncate">{user?.publicKey?.substring(0, 24)}...</p>
+                <p className="text-sm font-bold text-slate-800 truncate">{user?.username} <span className="text-[10px] text-indigo-400 font-normal ml-1">Local</span> <RoleBadge role={myRole} /></p>
+                <KeyFingerprint publicKey={user?.publicKey} className="text-slate-400" />
               </div>
             </div>
 
-            {peer ? (
-              <div className="flex items-center gap-3 p-3 bg-indigo-50/50 rounded-2xl border border-indigo-100 animate-slide-in-left">
-                <div className="relative">
-                  <img src={peer.avatar} className="w-10 h-10 rounded-full bg-indigo-100" alt="Peer avatar" />
-                  <div className="absolute -top-1 -right-1 bg-emerald-500 w-3 h-3 rounded-full border-2 border-white"></div>
-                </div>
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center justify-between">
-                    <p className="text-sm font-bold text-slate-800 truncate">{peer.username}</p>
-                    <i className="fas fa-check-circle text-[10px] text-emerald-500"></i>
+            {peers.length > 0 ? peers.map(peer => {
+              const record = trust[peer.userId];
+              const isVerified = TrustStore.isVerified(record, peer);
+              const peerRole = roleOf(peer.userId);
+              const canModerate = (myRole === 'owner' && peerRole !== 'owner') || (myRole === 'moderator' && peerRole === 'member');
+              const roleAction = (action: RoleAction) => (e: React.MouseEvent) => {
+                e.stopPropagation();
+                onRoleAction(action, peer.userId);
+              };
+              return (
+                <div
+                  key={peer.userId}
+                  onClick={() => setVerifyingId(peer.userId)}
+                  className="group w-full text-left flex items-center gap-3 p-3 bg-indigo-50/50 rounded-2xl border border-indigo-100 hover:border-indigo-200 transition-all animate-slide-in-left cursor-pointer"
+                >
+                  <div className="relative">
+                    <img src={`https://api.dicebear.com/7.x/avataaars/svg?seed=${peer.username}`} className="w-10 h-10 rounded-full bg-indigo-100" alt="Peer avatar" />
+                    <div
+                      className={`absolute -top-1 -right-1 ${PRESENCE_DOT[members[peer.userId]?.state || 'online']} w-3 h-3 rounded-full border-2 border-white`}
+                      title={members[peer.userId]?.state === 'away' ? 'Away' : 'Online'}
+                    ></div>
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm font-bold text-slate-800 truncate flex items-center gap-1">{peer.username} <RoleBadge role={peerRole} /></p>
+                      {isVerified
+                        ? <i className="fas fa-check-circle text-[10px] text-emerald-500" title="Verified"></i>
+                        : record?.pending
+                          ? <span className="text-[9px] font-bold text-rose-500 uppercase tracking-wider">Key Changed</span>
+                          : <span className="text-[9px] font-bold text-amber-500 uppercase tracking-wider">Unverified</span>}
+                    </div>
+                    <KeyFingerprint publicKey={peer.publicKey} className="text-indigo-400" />
+                    {canModerate && (
+                      <div className="hidden group-hover:flex items-center gap-2 mt-1 text-[9px] font-bold uppercase tracking-wider">
+                        {myRole === 'owner' && peerRole === 'member' && peer.signingKey && (
+                          <button onClick={roleAction('promote')} className="text-indigo-500 hover:text-indigo-700">Promote</button>
+                        )}
+                        {myRole === 'owner' && peerRole === 'moderator' && (
+                          <button onClick={roleAction('demote')} className="text-indigo-500 hover:text-indigo-700">Demote</button>
+                        )}
+                        <button onClick={roleAction('kick')} className="text-amber-600 hover:text-amber-700">Kick</button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            if (window.confirm(`Ban ${peer.username} from this room?`)) onRoleAction('ban', peer.userId);
+                          }}
+                          className="text-rose-500 hover:text-rose-700"
+                        >
+                          Ban
+                        </button>
+                      </div>
+                    )}
                   </div>
-                  <p className="text-[9px] text-indigo-400 font-mono truncate">{peer.publicKey.substring(0, 24)}...</p>
                 </div>
-              </div>
-            ) : (
+              );
+            }) : (
               <div className="p-6 text-center border-2 border-dashed border-slate-100 rounded-2xl">
                  <div className="mb-2 text-slate-200"><i className="fas fa-satellite-dish animate-pulse text-2xl"></i></div>
                  <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">Scanning frequency...</p>
               </div>
             )}
+
+            {offlineMembers.length > 0 && (
+              <div className="p-3 rounded-2xl border border-slate-100 space-y-2">
+                <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Offline</p>
+                {offlineMembers.map(m => (
+                  <div key={m.userId} className="flex items-center gap-2 text-xs text-slate-500">
+                    <span className={`w-2 h-2 rounded-full ${PRESENCE_DOT.offline}`}></span>
+                    <span className="flex-1 truncate">{m.username}</span>
+                    <span className="text-[10px] text-slate-400" title={new Date(m.lastSeen).toLocaleString()}>
+                      {formatDuration(Date.now() - m.lastSeen)} ago
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {bannedNames.length > 0 && (
+              <div className="p-3 rounded-2xl border border-rose-100 bg-rose-50/50 space-y-1">
+                <p className="text-[9px] font-bold text-rose-400 uppercase tracking-widest">Banned</p>
+                {bannedNames.map(b => (
+                  <div key={b.userId} className="flex items-center justify-between text-xs text-slate-600">
+                    <span className="truncate">{b.username}</span>
+                    {myRole !== 'member' && (
+                      <button onClick={() => onRoleAction('unban', b.userId)} className="text-[9px] font-bold uppercase text-rose-500 hover:text-rose-700">Unban</button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         </div>
 
@@ -163,7 +431,7 @@ const Sidebar: React.FC<SidebarProps> = ({ user, activeRoom, peer, isBotEnabled,
                 <div className="w-8 h-8 rounded-lg bg-slate-100 flex items-center justify-center group-hover:bg-indigo-100 group-hover:text-indigo-600 transition-colors">
                   <i className="fas fa-robot text-sm"></i>
                 </div>
-                <span className="text-xs font-semibold">Security Consultant Bot</span>
+                <span className="text-xs font-semibold">Chat Bots</span>
              </div>
              <div className="relative inline-flex items-center cursor-pointer">
                 <input 
@@ -175,6 +443,83 @@ const Sidebar: React.FC<SidebarProps> = ({ user, activeRoom, peer, isBotEnabled,
                 <div className="w-9 h-5 bg-slate-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-indigo-600"></div>
              </div>
           </label>
+          {isBotEnabled && (
+            <div className="px-3 pb-2 space-y-1.5">
+              {BotRegistry.list().map(bot => (
+                <div key={bot.id} className="text-[10px] text-slate-500">
+                  <span className="font-bold text-slate-600">{bot.name}</span>
+                  <span className="font-mono text-indigo-500 ml-1">
+                    {triggersOf(bot)}
+                  </span>
+                  <p className="text-slate-400">{bot.description}</p>
+                </div>
+              ))}
+            </div>
+          )}
+          {/* Shown to everyone, bot users or not, since one member's refusal keeps external bots off */}
+          <label className="flex items-start gap-2 px-3 pb-2 text-[10px] text-slate-500 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={botConsent.mine}
+              onChange={e => onSetBotConsent(e.target.checked)}
+              className="mt-0.5 accent-indigo-600"
+            />
+            <span>
+              Allow external bots in this room. Everyone here must agree; secrets, emails and IPs are redacted before sending.
+              <span className="block font-bold text-slate-600 mt-0.5">
+                {botConsent.allowed} of {botConsent.total} allowed{botConsent.waitingOn.length > 0 ? ` · waiting on ${botConsent.waitingOn.join(', ')}` : ''}
+              </span>
+            </span>
+          </label>
+
+          <div className="flex items-center justify-between p-3 rounded-2xl">
+             <div className="flex items-center gap-3 text-slate-600">
+                <div className="w-8 h-8 rounded-lg bg-slate-100 flex items-center justify-center">
+                  <i className="fas fa-box-archive text-sm"></i>
+                </div>
+                <span className="text-xs font-semibold">Local History</span>
+             </div>
+             <select
+                value={retention}
+                onChange={e => onSetRetention(Number(e.target.value))}
+                className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-[11px] font-semibold text-slate-600 outline-none focus:ring-2 focus:ring-indigo-500"
+             >
+                {RETENTION_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+             </select>
+          </div>
+
+          <div className="flex items-center justify-between p-3 rounded-2xl">
+             <div className="flex items-center gap-3 text-slate-600">
+                <div className="w-8 h-8 rounded-lg bg-slate-100 flex items-center justify-center">
+                  <i className="fas fa-hourglass-half text-sm"></i>
+                </div>
+                <span className="text-xs font-semibold">Disappearing</span>
+             </div>
+             <select
+                value={disappearingTimer}
+                onChange={e => onSetTimer(Number(e.target.value))}
+                className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-[11px] font-semibold text-slate-600 outline-none focus:ring-2 focus:ring-indigo-500"
+                title="Applies to everyone in this room"
+             >
+                {TIMER_OPTIONS.map(option => (
+                  <option key={option.ttl} value={option.ttl}>{option.label}</option>
+                ))}
+             </select>
+          </div>
+
+          <button
+            onClick={() => {
+              if (window.confirm(`Permanently erase the local history of #${activeRoom} on this device?`)) onWipeRoom();
+            }}
+            className="w-full flex items-center gap-3 p-3 hover:bg-rose-50 rounded-2xl transition-all group"
+          >
+             <div className="w-8 h-8 rounded-lg bg-slate-100 flex items-center justify-center group-hover:bg-rose-100 group-hover:text-rose-600 transition-colors">
+                <i className="fas fa-eraser text-sm"></i>
+             </div>
+             <span className="text-xs font-semibold text-slate-600 group-hover:text-rose-600">Wipe This Room</span>
+          </button>
 
           <button 
             onClick={() => setShowAudit(!showAudit)}
@@ -188,20 +533,121 @@ const Sidebar: React.FC<SidebarProps> = ({ user, activeRoom, peer, isBotEnabled,
         </div>
       </div>
 
+      {verifyingPeer && user && (
+        <VerificationPanel
+          user={user}
+          peer={verifyingPeer}
+          trust={trust[verifyingPeer.userId]}
+          onSetVerified={onSetVerified}
+          onClose={() => setVerifyingId(null)}
+        />
+      )}
+
       {showAudit && (
         <div className="absolute inset-0 bg-white z-30 animate-slide-in-bottom flex flex-col">
            <div className="p-6 border-b border-slate-100 flex items-center justify-between">
               <h3 className="font-bold text-slate-800">Security Audit</h3>
-              <button onClick={() => setShowAudit(false)} className="text-slate-400 hover:text-slate-600"><i className="fas fa-times"></i></button>
+              <div className="flex items-center gap-3">
+                 <button onClick={handleExportAudit} className="text-[10px] font-bold uppercase tracking-wider text-indigo-500 hover:text-indigo-700" title="Download the audit log and session stats as JSON">
+                    <i className="fas fa-file-export mr-1"></i>Export
+                 </button>
+                 <button onClick={() => setShowAudit(false)} className="text-slate-400 hover:text-slate-600"><i className="fas fa-times"></i></button>
+              </div>
            </div>
            <div className="p-6 space-y-4 overflow-y-auto custom-scrollbar">
+              <div className="space-y-2">
+                 <p className="text-[10px] font-bold text-slate-400 uppercase">Live Session</p>
+                 <div className="p-3 bg-slate-50 rounded-xl font-mono text-[11px] text-slate-600 space-y-1 border border-slate-100">
+                    <div className="flex justify-between"><span>Sent:</span><span className="text-indigo-600 font-bold">{sessionStats.messagesSent} msgs · {formatBytes(sessionStats.bytesSent)}</span></div>
+                    <div className="flex justify-between"><span>Received:</span><span className="text-indigo-600 font-bold">{sessionStats.messagesReceived} msgs · {formatBytes(sessionStats.bytesReceived)}</span></div>
+                    <div className="flex justify-between">
+                       <span>Host RTT:</span>
+                       <span className="text-indigo-600 font-bold">{sessionStats.rttMs !== null ? `${sessionStats.rttMs} ms` : connectionStatus?.status === 'host' ? 'You are host' : '—'}</span>
+                    </div>
+                    <div className="flex justify-between"><span>Reconnects:</span><span className={`font-bold ${sessionStats.reconnects > 0 ? 'text-amber-600' : 'text-indigo-600'}`}>{sessionStats.reconnects}</span></div>
+                    <div className="flex justify-between"><span>Key Epoch:</span><span className="text-indigo-600 font-bold">{sessionStats.epoch !== null ? `#${sessionStats.epoch}` : '—'}</span></div>
+                    <div className="flex justify-between">
+                       <span>Peers Verified:</span>
+                       <span className={`font-bold ${sessionStats.peersVerified < sessionStats.peersTotal ? 'text-amber-600' : 'text-emerald-600'}`}>{sessionStats.peersVerified} / {sessionStats.peersTotal}</span>
+                    </div>
+                 </div>
+              </div>
+
               <div className="space-y-2">
                  <p className="text-[10px] font-bold text-slate-400 uppercase">Algorithm Stack</p>
                  <div className="p-3 bg-slate-50 rounded-xl font-mono text-[11px] text-slate-600 space-y-1 border border-slate-100">
-                    <div className="flex justify-between"><span>Symmetric:</span><span className="text-indigo-600 font-bold">AES-GCM-256</span></div>
-                    <div className="flex justify-between"><span>Asymmetric:</span><span className="text-indigo-600 font-bold">RSA-OAEP-2048</span></div>
-                    <div className="flex justify-between"><span>Hashing:</span><span className="text-indigo-600 font-bold">SHA-256</span></div>
+                    <div className="flex justify-between"><span>Symmetric:</span><span className="text-indigo-600 font-bold">{CRYPTO_SUITE.symmetric}</span></div>
+                    <div className="flex justify-between"><span>Asymmetric:</span><span className="text-indigo-600 font-bold">{CRYPTO_SUITE.asymmetric}</span></div>
+                    <div className="flex justify-between"><span>Signatures:</span><span className="text-indigo-600 font-bold">{CRYPTO_SUITE.signatures}</span></div>
+                    <div className="flex justify-between"><span>Hashing:</span><span className="text-indigo-600 font-bold">{CRYPTO_SUITE.hashing}</span></div>
+                    <div className="flex justify-between"><span>Key Derivation:</span><span className="text-indigo-600 font-bold">{CRYPTO_SUITE.keyDerivation}</span></div>
+                    <div className="flex justify-between"><span>Group Keys:</span><span className="text-indigo-600 font-bold">Sender Keys</span></div>
+                 </div>
+              </div>
+
+              <div className="space-y-2">
+                 <div className="flex items-center justify-between">
+                    <p className="text-[10px] font-bold text-slate-400 uppercase">Group Session Key</p>
+                    <span className="text-[10px] font-mono font-bold text-indigo-600">
+                       {currentEpoch !== null ? `EPOCH #${currentEpoch}` : 'NOT ESTABLISHED'}
+                    </span>
+                 </div>
+                 {rekeyHistory.length === 0 ? (
+                    <p className="text-[11px] text-slate-400 italic px-1">Waiting for key agreement...</p>
+                 ) : (
+                    <div className="p-3 bg-slate-50 rounded-xl font-mono text-[11px] text-slate-600 space-y-1 border border-slate-100">
+                       {[...rekeyHistory].reverse().map(rekey => (
+                          <div key={`${rekey.epoch}-${rekey.timestamp}`} className="flex justify-between gap-2">
+                             <span className="text-indigo-600 font-bold">#{rekey.epoch}</span>
+                             <span className="flex-1 truncate">{describeRekey(rekey)}</span>
+                             <span className="text-slate-400">{new Date(rekey.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                          </div>
+                       ))}
+                    </div>
+                 )}
+              </div>
+
+              <div className="space-y-2">
+                 <div className="flex items-center justify-between">
+                    <p className="text-[10px] font-bold text-slate-400 uppercase">Rejected Events</p>
+                    <span className={`text-[10px] font-mono font-bold ${roomAudit.length > 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+                       {roomAudit.length}
+                    </span>
+                 </div>
+                 {roomAudit.length === 0 ? (
+                    <p className="text-[11px] text-slate-400 italic px-1">Every control event in this room carried a valid signature.</p>
+                 ) : (
+                    <div className="p-3 bg-rose-50 rounded-xl font-mono text-[11px] text-rose-700 space-y-1 border border-rose-100">
+                       {[...roomAudit].reverse().map(entry => (
+                          <div key={entry.id} className="flex justify-between gap-2">
+                             <span className="flex-1 break-words">{entry.summary}</span>
+                             <span className="text-rose-400">{new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                          </div>
+                       ))}
+                    </div>
+                 )}
+              </div>
+
+              <div className="space-y-2">
+                 <div className="flex items-center justify-between">
+                    <p className="text-[10px] font-bold text-slate-400 uppercase">Sent to Bots</p>
+                    <span className="text-[10px] font-mono font-bold text-slate-500">{roomDisclosures.length}</span>
                  </div>
+                 {roomDisclosures.length === 0 ? (
+                    <p className="text-[11px] text-slate-400 italic px-1">Nothing from this room has left this device for a bot.</p>
+                 ) : (
+                    <div className="p-3 bg-amber-50 rounded-xl font-mono text-[11px] text-amber-800 space-y-1 border border-amber-100">
+                       {[...roomDisclosures].reverse().map(entry => (
+                          <details key={entry.id}>
+                             <summary className="flex justify-between gap-2 cursor-pointer">
+                                <span className="flex-1 break-words">{entry.summary}</span>
+                                <span className="text-amber-500">{new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                             </summary>
+                             <pre className="mt-1 p-2 bg-white/70 rounded-lg whitespace-pre-wrap break-words text-[10px] max-h-48 overflow-y-auto">{JSON.stringify(entry.data, null, 2)}</pre>
+                          </details>
+                       ))}
+                    </div>
+                 )}
               </div>
            </div>
         </div>
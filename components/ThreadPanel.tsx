@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Message, User } from '../types.ts';
+
+interface ThreadPanelProps {
+  root: Message;
+  replies: Message[];
+  currentUser: User;
+  onReply: (content: string) => void;
+  onJumpTo: (messageId: string) => void;
+  onClose: () => void;
+}
+
+const ThreadPanel: React.FC<ThreadPanelProps> = ({ root, replies, currentUser, onReply, onJumpTo, onClose }) => {
+  const [inputText, setInputText] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inputText.trim()) return;
+    onReply(inputText);
+    setInputText('');
+  };
+
+  const renderEntry = (msg: Message, isRoot: boolean) => (
+    <button
+      key={msg.id}
+      onClick={() => onJumpTo(msg.id)}
+      className={`w-full text-left p-3 rounded-xl border transition-all hover:border-indigo-200
+        ${isRoot ? 'bg-indigo-50/60 border-indigo-100' : 'bg-white border-slate-100'}`}
+      title="Show in conversation"
+    >
+      <div className="flex items-center justify-between mb-1">
+        <span className={`text-[10px] font-bold uppercase ${msg.senderId === currentUser.id ? 'text-indigo-500' : 'text-slate-400'}`}>
+          {msg.senderId === currentUser.id ? 'You' : msg.senderName}
+        </span>
+        <span className="text-[9px] text-slate-300">
+          {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </span>
+      </div>
+      <p className={`text-sm leading-relaxed whitespace-pre-wrap break-words ${msg.isDeleted ? 'italic text-slate-400' : 'text-slate-700'}`}>
+        {msg.isDeleted ? 'This message was deleted' : msg.content || (msg.attachment ? `Sent ${msg.attachment.name}` : '')}
+      </p>
+    </button>
+  );
+
+  return (
+    <div className="absolute inset-y-0 right-0 w-full sm:w-80 bg-white border-l border-slate-200 shadow-2xl z-30 animate-fade-in flex flex-col">
+      <div className="p-5 border-b border-slate-100 flex items-center justify-between">
+        <div>
+          <h3 className="font-bold text-slate-800">Thread</h3>
+          <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">
+            {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
+          </p>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><i className="fas fa-times"></i></button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2 custom-scrollbar bg-slate-50/50">
+        {renderEntry(root, true)}
+        {replies.length > 0 && (
+          <div className="flex items-center gap-2 py-1">
+            <div className="bg-slate-200 h-px flex-1"></div>
+            <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Replies</span>
+            <div className="bg-slate-200 h-px flex-1"></div>
+          </div>
+        )}
+        {replies.map(reply => renderEntry(reply, false))}
+      </div>
+
+      <form onSubmit={handleSubmit} className="p-3 border-t border-slate-100 flex items-center gap-2">
+        <input
+          type="text"
+          className="flex-1 bg-slate-100 border-none rounded-xl px-4 py-2.5 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+          placeholder="Reply in thread..."
+          value={inputText}
+          onChange={e => setInputText(e.target.value)}
+        />
+        <button type="submit" className="w-9 h-9 bg-indigo-600 text-white rounded-xl flex items-center justify-center hover:bg-indigo-700 transition-all">
+          <i className="fas fa-paper-plane text-xs"></i>
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ThreadPanel;
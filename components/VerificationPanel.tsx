@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { User, KeyAnnouncement, TrustRecord } from '../types.ts';
+import { CryptoService } from '../services/cryptoService.ts';
+import { TrustStore } from '../services/trustStore.ts';
+
+interface VerificationPanelProps {
+  user: User;
+  peer: KeyAnnouncement;
+  trust?: TrustRecord;
+  onSetVerified: (userId: string, verified: boolean) => void;
+  onClose: () => void;
+}
+
+const VerificationPanel: React.FC<VerificationPanelProps> = ({ user, peer, trust, onSetVerified, onClose }) => {
+  const [safetyNumber, setSafetyNumber] = useState<{ digits: string; grid: boolean[] } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSafetyNumber(null);
+    CryptoService.safetyNumber(
+      { userId: user.id, publicKey: user.publicKey, signingKey: user.signingKey },
+      { userId: peer.userId, publicKey: peer.publicKey, signingKey: peer.signingKey }
+    ).then(result => {
+      if (!cancelled) setSafetyNumber(result);
+    });
+    return () => { cancelled = true; };
+  }, [user.id, user.publicKey, user.signingKey, peer.userId, peer.publicKey, peer.signingKey]);
+
+  const isVerified = TrustStore.isVerified(trust, peer);
+
+  return (
+    <div className="absolute inset-0 bg-white z-30 animate-slide-in-bottom flex flex-col">
+      <div className="p-6 border-b border-slate-100 flex items-center justify-between">
+        <div>
+          <h3 className="font-bold text-slate-800">Verify Safety Number</h3>
+          <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">{peer.username}</p>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><i className="fas fa-times"></i></button>
+      </div>
+
+      <div className="p-6 space-y-5 overflow-y-auto custom-scrollbar">
+        {!safetyNumber ? (
+          <div className="py-12 text-center text-slate-300">
+            <i className="fas fa-circle-notch fa-spin text-2xl"></i>
+          </div>
+        ) : (
+          <>
+            <div className="flex justify-center">
+              <svg viewBox="0 0 16 16" className="w-40 h-40 border-4 border-slate-900 rounded-lg bg-white" shapeRendering="crispEdges">
+                {safetyNumber.grid.map((on, i) => on && (
+                  <rect key={i} x={i % 16} y={Math.floor(i / 16)} width="1" height="1" fill="#0f172a" />
+                ))}
+              </svg>
+            </div>
+
+            <div className="grid grid-cols-4 gap-2 p-4 bg-slate-50 rounded-xl border border-slate-100 font-mono text-sm text-slate-700 text-center">
+              {safetyNumber.digits.match(/.{5}/g)!.map((group, i) => (
+                <span key={i}>{group}</span>
+              ))}
+            </div>
+
+            <p className="text-[11px] text-slate-500 leading-relaxed">
+              Compare these numbers with {peer.username} in person or over another trusted channel.
+              If they match on both devices, nobody is intercepting your keys.
+            </p>
+          </>
+        )}
+
+        <button
+          onClick={() => onSetVerified(peer.userId, !isVerified)}
+          disabled={!safetyNumber}
+          className={`w-full font-bold py-3 rounded-xl transition-all text-sm ${
+            isVerified
+              ? 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+              : 'bg-emerald-500 text-white hover:bg-emerald-600 shadow-lg shadow-emerald-100'
+          } disabled:opacity-50`}
+        >
+          {isVerified ? 'Clear Verification' : 'Mark as Verified'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VerificationPanel;
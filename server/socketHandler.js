@@ -1,36 +1,59 @@
+// Events relayed to the rest of the room, or to a single member when the payload names one in `to`.
+// Clients encrypt messages, reactions, edits and deletes before they get here ('secure').
+const RELAYED_EVENTS = [
+  'message', 'reaction', 'typing', 'edit', 'delete', 'secure', 'sender_key', 'key_announce', 'key_roster', 'rekey',
+  // Admission handshake between a newcomer and the coordinator; always addressed with `to`
+  'join_request', 'challenge', 'challenge_response', 'admission_result', 'room_credential',
+  // Latency probes between a member and the coordinator; also addressed with `to`
+  'ping', 'pong',
+];
+
+// Room membership in join order; the first member coordinates rekeys
+const membersOf = (io, roomId) => [...(io.sockets.adapter.rooms.get(roomId) || [])];
+
 module.exports = (io) => {
   io.on('connection', (socket) => {
     console.log('User connected:', socket.id);
 
+    const announceLeave = (roomId) => {
+      const remaining = membersOf(io, roomId).filter(id => id !== socket.id);
+      socket.to(roomId).emit('peer_left', { roomId, socketId: socket.id, coordinator: remaining[0] });
+    };
+
     // Join a specific chat room
     socket.on('join_room', (roomId) => {
       socket.join(roomId);
+      socket.emit('room_joined', { roomId, coordinator: membersOf(io, roomId)[0] });
       console.log(`User ${socket.id} joined room ${roomId}`);
     });
 
-    // Handle new messages
-    socket.on('message', (data) => {
-      // Broadcast to everyone in the room except sender (sender adds locally)
-      socket.to(data.roomId).emit('message', data);
+    socket.on('leave_room', (roomId) => {
+      if (!socket.rooms.has(roomId)) return;
+      announceLeave(roomId);
+      socket.leave(roomId);
     });
 
-    // Handle reactions
-    socket.on('reaction', (data) => {
-      socket.to(data.roomId).emit('reaction', data);
+    RELAYED_EVENTS.forEach(event => {
+      socket.on(event, (data) => {
+        // Only members may talk to a room; the sender is stamped so clients can't spoof it
+        if (!data || !data.roomId || !socket.rooms.has(data.roomId)) return;
+        const payload = { ...data, from: socket.id };
+        if (data.to) {
+          if (membersOf(io, data.roomId).includes(data.to)) io.to(data.to).emit(event, payload);
+        } else {
+          socket.to(data.roomId).emit(event, payload);
+        }
+      });
     });
 
-    // Handle typing indicators
-    socket.on('typing', (data) => {
-      socket.to(data.roomId).emit('typing', data);
-    });
-    
-    // Handle soft deletion of messages
-    socket.on('delete', (data) => {
-      socket.to(data.roomId).emit('delete', data);
+    socket.on('disconnecting', () => {
+      socket.rooms.forEach(roomId => {
+        if (roomId !== socket.id) announceLeave(roomId);
+      });
     });
 
     socket.on('disconnect', () => {
       console.log('User disconnected:', socket.id);
     });
   });
-};
\ No newline at end of file
+};
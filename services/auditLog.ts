@@ -0,0 +1,26 @@
+import { AuditEntry } from '../types.ts';
+
+const AUDIT_LIMIT = 500;
+
+type Listener = (entries: AuditEntry[]) => void;
+
+let entries: AuditEntry[] = [];
+const listeners = new Set<Listener>();
+
+// Security-relevant events seen this session, newest last
+export const AuditLog = {
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    listener(entries);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  record(entry: Omit<AuditEntry, 'id' | 'timestamp'>) {
+    const full: AuditEntry = { ...entry, id: `a-${Date.now()}-${Math.random().toString(36).substr(2, 4)}`, timestamp: Date.now() };
+    console.warn(`[Audit] ${full.summary}`);
+    entries = [...entries, full].slice(-AUDIT_LIMIT);
+    listeners.forEach(listener => listener(entries));
+  },
+};
@@ -0,0 +1,77 @@
+import { CryptoService } from './cryptoService.ts';
+import { openDB, promisify, transactionDone, iterate } from './db.ts';
+
+interface StoredChunk {
+  fileId: string;
+  index: number;
+  roomId: string;
+  iv: Uint8Array;
+  ciphertext: ArrayBuffer;
+}
+
+let storageKey: CryptoKey | null = null;
+
+const requireKey = () => {
+  if (!storageKey) throw new Error('Blob store is locked.');
+  return storageKey;
+};
+
+const fileRange = (fileId: string) => IDBKeyRange.bound([fileId, 0], [fileId, Infinity]);
+
+const deleteWhere = async (indexName: string, key: string) => {
+  const db = await openDB();
+  const tx = db.transaction('chunks', 'readwrite');
+  const done = transactionDone(tx);
+  await iterate(tx.objectStore('chunks').index(indexName), IDBKeyRange.only(key), 'next', cursor => {
+    cursor.delete();
+    return true;
+  });
+  await done;
+};
+
+// Attachment bytes at rest, one AES-GCM record per chunk, kept out of the message records
+export const BlobStore = {
+  unlock(key: CryptoKey) {
+    storageKey = key;
+  },
+
+  async putChunk(fileId: string, roomId: string, index: number, data: Uint8Array) {
+    const { iv, ciphertext } = await CryptoService.encryptBytes(requireKey(), data);
+    const record: StoredChunk = { fileId, index, roomId, iv, ciphertext };
+    const db = await openDB();
+    await promisify(db.transaction('chunks', 'readwrite').objectStore('chunks').put(record));
+  },
+
+  async getChunk(fileId: string, index: number): Promise<Uint8Array | null> {
+    const db = await openDB();
+    const record: StoredChunk | undefined = await promisify(db.transaction('chunks', 'readonly').objectStore('chunks').get([fileId, index]));
+    return record ? CryptoService.decryptBytes(requireKey(), record.iv, record.ciphertext) : null;
+  },
+
+  // Indexes below `count` with no stored chunk, in order
+  async missing(fileId: string, count: number): Promise<number[]> {
+    const db = await openDB();
+    const keys = await promisify(db.transaction('chunks', 'readonly').objectStore('chunks').getAllKeys(fileRange(fileId)));
+    const have = new Set(keys.map(key => (key as [string, number])[1]));
+    return Array.from({ length: count }, (_, i) => i).filter(i => !have.has(i));
+  },
+
+  async assemble(fileId: string, mimeType: string): Promise<Blob> {
+    const key = requireKey();
+    const db = await openDB();
+    const records: StoredChunk[] = await promisify(db.transaction('chunks', 'readonly').objectStore('chunks').getAll(fileRange(fileId)));
+    const parts: Uint8Array[] = [];
+    for (const record of records) {
+      parts.push(await CryptoService.decryptBytes(key, record.iv, record.ciphertext));
+    }
+    return new Blob(parts, { type: mimeType });
+  },
+
+  deleteFile(fileId: string) {
+    return deleteWhere('file', fileId);
+  },
+
+  wipeRoom(roomId: string) {
+    return deleteWhere('room', roomId);
+  },
+};
@@ -0,0 +1,60 @@
+import { BotConsent, BotActivation } from '../types.ts';
+import { isFromFuture } from './disappearingTimers.ts';
+
+const CONSENT_STORAGE_KEY = 'ciphertalk_v2_bot_consent';
+
+type RoomConsents = { [userId: string]: BotConsent };
+
+const load = (): { [roomId: string]: RoomConsents } => {
+  try {
+    return JSON.parse(localStorage.getItem(CONSENT_STORAGE_KEY) || '{}');
+  } catch (e) {
+    console.warn("Failed to load bot consent:", e);
+    return {};
+  }
+};
+
+const save = (all: { [roomId: string]: RoomConsents }) => {
+  localStorage.setItem(CONSENT_STORAGE_KEY, JSON.stringify(all));
+};
+
+// Each member's own latest signed answer stands
+export const BotConsents = {
+  all(roomId: string): BotConsent[] {
+    return Object.values(load()[roomId] || {});
+  },
+
+  granted(roomId: string, userId: string): boolean {
+    return !!load()[roomId]?.[userId]?.granted;
+  },
+
+  // Returns false for answers already seen or superseded
+  apply(consent: BotConsent): boolean {
+    // A future-dated answer would outlast every later change of mind
+    if (typeof consent.granted !== 'boolean' || isFromFuture(consent.timestamp)) return false;
+    const all = load();
+    const current = all[consent.roomId]?.[consent.userId];
+    if (current && !isFromFuture(current.timestamp) && current.timestamp >= consent.timestamp) return false;
+    save({ ...all, [consent.roomId]: { ...all[consent.roomId], [consent.userId]: consent } });
+    return true;
+  },
+
+  // External bots stay off until everyone in the room right now has said yes
+  missing(roomId: string, memberIds: string[]): string[] {
+    const consents = load()[roomId] || {};
+    return memberIds.filter(id => !consents[id]?.granted);
+  },
+
+  describeActivation(activation: BotActivation): string {
+    if (!activation.enabled) return `${activation.username} turned off bots.`;
+    return activation.external.length > 0
+      ? `${activation.username} turned on bots. ${activation.external.join(', ')} can send questions and recent messages from members who allowed it to an outside service.`
+      : `${activation.username} turned on bots.`;
+  },
+
+  describe(consent: BotConsent): string {
+    return consent.granted
+      ? `${consent.username} allowed their recent messages in this room to be sent, redacted, to external bots when someone asks one.`
+      : `${consent.username} withdrew consent; their messages are no longer sent to external bots.`;
+  },
+};
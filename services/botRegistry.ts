@@ -0,0 +1,179 @@
+import { Message } from '../types.ts';
+import { AuditLog } from './auditLog.ts';
+import { BotConsents } from './botConsents.ts';
+import { redactSecrets } from '../utils/redaction.ts';
+
+// One earlier message as a bot sees it
+export interface BotTurn {
+  role: 'user' | 'bot'; // 'bot' for this bot's own earlier replies
+  name: string;
+  text: string;
+}
+
+export interface BotRequest {
+  roomId: string;
+  message: Message; // What triggered the bot
+  text: string; // The message with its command or mention removed
+  command?: string; // Without the slash
+  context: BotTurn[]; // Oldest first; ends just before `message`
+  signal: AbortSignal;
+}
+
+export interface BotRateLimit {
+  count: number;
+  windowMs: number;
+}
+
+// A bot runs on the client of whoever invokes it; its reply goes to the room as an ordinary message
+export interface Bot {
+  id: string;
+  name: string;
+  description: string;
+  commands: string[]; // Answered as `/command ...`
+  mention: boolean; // Answered as `@name ...` anywhere in a message
+  rateLimit: BotRateLimit;
+  // Sends what it reads off this device; needs the whole room's consent, and everything is redacted and audited first
+  external?: boolean;
+  // Bots that need the network or a key say so, and the stand-in answers instead
+  isAvailable?(): boolean;
+  // Reports the reply so far as it arrives and resolves with all of it
+  handle(request: BotRequest, onText: (text: string) => void): Promise<string>;
+}
+
+export interface BotInvocation {
+  bot: Bot;
+  standInFor?: Bot;
+  run(history: Message[], onText: (text: string) => void, signal: AbortSignal): Promise<string>;
+}
+
+export type BotDispatch = BotInvocation | { bot: Bot; retryAfterMs: number } | { bot: Bot; needsConsent: true };
+
+// Answers for any bot that can't right now, so the feature still works offline
+export const STAND_IN_BOT_ID = 'echo';
+const BOT_SENDER_PREFIX = 'bot:';
+// What a bot may see of the room: at most this many recent messages, trimmed further to the character budget
+const CONTEXT_MAX_MESSAGES = 20;
+const CONTEXT_MAX_CHARS = 6000;
+
+const bots = new Map<string, Bot>();
+const invocations = new Map<string, number[]>();
+
+// How to call a bot, e.g. "/ask @CipherBot"
+export const triggersOf = (bot: Bot) => [...bot.commands.map(c => `/${c}`), ...(bot.mention ? [`@${bot.name}`] : [])].join(' ');
+
+export const botSenderId = (bot: Bot) => `${BOT_SENDER_PREFIX}${bot.id}`;
+
+// Replies from before the registry were all sent as plain 'bot'
+export const isBotSender = (senderId: string) => senderId === 'bot' || senderId.startsWith(BOT_SENDER_PREFIX);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Which bot a message addresses, if any: a leading /command, or an @mention of a bot's name
+const route = (content: string): { bot: Bot; text: string; command?: string } | null => {
+  const command = content.match(/^\/(\w+)(?:\s+([\s\S]*))?$/);
+  if (command) {
+    const name = command[1].toLowerCase();
+    const bot = [...bots.values()].find(b => b.commands.includes(name));
+    return bot ? { bot, text: (command[2] || '').trim(), command: name } : null;
+  }
+  for (const bot of bots.values()) {
+    if (!bot.mention) continue;
+    const mention = new RegExp(`(^|\\s)@${escapeRegExp(bot.name)}\\b`, 'i');
+    if (mention.test(content)) return { bot, text: content.replace(mention, '$1').trim() };
+  }
+  return null;
+};
+
+// Recent text messages only: attachments, deleted, expired and system messages never leave this device,
+// and neither does anything from a sender `shares` turns down
+export const buildContext = (history: Message[], bot: Bot, before: Message, shares: (m: Message) => boolean = () => true): BotTurn[] => {
+  const now = Date.now();
+  const turns: BotTurn[] = [];
+  let chars = 0;
+  for (let i = history.length - 1; i >= 0 && turns.length < CONTEXT_MAX_MESSAGES; i--) {
+    const m = history[i];
+    if (m.id === before.id || m.roomId !== before.roomId || m.timestamp > before.timestamp) continue;
+    if (m.type === 'system' || m.isDeleted || m.attachment || m.botReply || (m.expiresAt && m.expiresAt <= now) || !m.content.trim()) continue;
+    if (!shares(m)) continue;
+    chars += m.content.length;
+    if (chars > CONTEXT_MAX_CHARS) break;
+    turns.unshift({ role: m.senderId === botSenderId(bot) ? 'bot' : 'user', name: m.senderName, text: m.content });
+  }
+  return turns;
+};
+
+// Last stop before an external bot: strip secrets, then log exactly what goes out
+const disclose = (bot: Bot, request: BotRequest): BotRequest => {
+  let redactions = 0;
+  const clean = (text: string) => {
+    const redacted = redactSecrets(text);
+    redactions += redacted.count;
+    return redacted.text;
+  };
+  const text = clean(request.text);
+  const context = request.context.map(turn => ({ ...turn, name: clean(turn.name), text: clean(turn.text) }));
+  AuditLog.record({
+    roomId: request.roomId,
+    category: 'bot_disclosure',
+    summary: `Sent ${context.length + 1} message${context.length ? 's' : ''} to ${bot.name}${redactions ? `, ${redactions} redaction${redactions > 1 ? 's' : ''}` : ''}`,
+    data: { bot: bot.name, prompt: text, context },
+  });
+  return { ...request, text, context };
+};
+
+// Sliding window per bot; returns how long until the next call is allowed, or 0
+const throttle = (bot: Bot, now: number) => {
+  const recent = (invocations.get(bot.id) || []).filter(at => now - at < bot.rateLimit.windowMs);
+  if (recent.length >= bot.rateLimit.count) {
+    invocations.set(bot.id, recent);
+    return recent[0] + bot.rateLimit.windowMs - now;
+  }
+  invocations.set(bot.id, [...recent, now]);
+  return 0;
+};
+
+export const BotRegistry = {
+  register(bot: Bot) {
+    bots.set(bot.id, bot);
+  },
+
+  list(): Bot[] {
+    return [...bots.values()];
+  },
+
+  get(id: string) {
+    return bots.get(id);
+  },
+
+  // Routes, checks consent and rate-limits right away; the reply itself comes from run()
+  dispatch(message: Message, mayDisclose: boolean): BotDispatch | null {
+    const target = route(message.content);
+    if (!target) return null;
+    const standIn = !!target.bot.isAvailable && !target.bot.isAvailable();
+    const bot = standIn ? bots.get(STAND_IN_BOT_ID) || target.bot : target.bot;
+    if (bot.external && !mayDisclose) return { bot, needsConsent: true };
+
+    const retryAfterMs = throttle(bot, Date.now());
+    if (retryAfterMs > 0) {
+      console.log(`[Bots] ${bot.name} is rate limited for ${Math.ceil(retryAfterMs / 1000)}s`);
+      return { bot, retryAfterMs };
+    }
+    return {
+      bot,
+      standInFor: bot !== target.bot ? target.bot : undefined,
+      run: (history, onText, signal) => {
+        // External bots only see members who allow it right now, including those who have since left
+        const shares = (m: Message) => !bot.external || m.senderId === botSenderId(bot) || BotConsents.granted(message.roomId, m.senderId);
+        const request: BotRequest = {
+          roomId: message.roomId,
+          message,
+          text: target.text,
+          command: target.command,
+          context: buildContext(history, bot, message, shares),
+          signal,
+        };
+        return bot.handle(bot.external ? disclose(bot, request) : request, onText);
+      },
+    };
+  },
+};
@@ -1,3 +1,260 @@
-// This service has been removed to simplify the application.
-export const CryptoService = {};
-//
\ No newline at end of file
+import { EncryptedEnvelope, KeyAnnouncement } from '../types.ts';
+
+// Identity keys: RSA-OAEP-2048 with SHA-256, used to distribute sender keys
+const RSA_PARAMS: RsaHashedKeyGenParams = {
+  name: 'RSA-OAEP',
+  modulusLength: 2048,
+  publicExponent: new Uint8Array([1, 0, 1]),
+  hash: 'SHA-256',
+};
+
+// Signing keys: ECDSA P-256, used to authenticate control events (deletes, reactions, edits)
+const SIGNING_PARAMS: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGNATURE_PARAMS: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+// Sender keys and everything at rest: AES-GCM-256
+const AES_PARAMS: AesKeyGenParams = { name: 'AES-GCM', length: 256 };
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (buf: ArrayBuffer | Uint8Array) => {
+  const bytes = buf instanceof Uint8Array ? buf : new Uint8Array(buf);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+const fromBase64 = (b64: string) => Uint8Array.from(atob(b64), c => c.charCodeAt(0));
+
+const SAFETY_NUMBER_ITERATIONS = 1024;
+export const PBKDF2_ITERATIONS = 310000;
+
+// What the audit panel reports, read from the parameters above so the two can't drift apart
+export const CRYPTO_SUITE = {
+  symmetric: `${AES_PARAMS.name}-${AES_PARAMS.length}`,
+  asymmetric: `${RSA_PARAMS.name}-${RSA_PARAMS.modulusLength}`,
+  signatures: `${SIGNING_PARAMS.name} ${SIGNING_PARAMS.namedCurve}`,
+  hashing: String(RSA_PARAMS.hash),
+  keyDerivation: `PBKDF2 × ${PBKDF2_ITERATIONS.toLocaleString()}`,
+};
+
+// 30 digits per party: six 5-byte chunks of an iterated SHA-256 over the identity and signing keys, each reduced mod 100000.
+// Covering the signing key means a verified peer's control events are checked against a key the user has vouched for.
+const partyDigits = async (userId: string, publicKey: string, signingKey?: string) => {
+  const key = new Uint8Array([...fromBase64(publicKey), ...(signingKey ? fromBase64(signingKey) : [])]);
+  let hash = new Uint8Array(await crypto.subtle.digest('SHA-256', new Uint8Array([...key, ...encoder.encode(userId)])));
+  for (let i = 0; i < SAFETY_NUMBER_ITERATIONS; i++) {
+    hash = new Uint8Array(await crypto.subtle.digest('SHA-256', new Uint8Array([...hash, ...key])));
+  }
+  let digits = '';
+  for (let chunk = 0; chunk < 6; chunk++) {
+    let value = 0;
+    for (let i = 0; i < 5; i++) value = value * 256 + hash[chunk * 5 + i];
+    digits += String(value % 100000).padStart(5, '0');
+  }
+  return digits;
+};
+
+export const CryptoService = {
+  toBase64,
+  fromBase64,
+
+  generateKeyPair(): Promise<CryptoKeyPair> {
+    return crypto.subtle.generateKey(RSA_PARAMS, true, ['encrypt', 'decrypt', 'wrapKey', 'unwrapKey']);
+  },
+
+  async exportPublicKey(key: CryptoKey): Promise<string> {
+    return toBase64(await crypto.subtle.exportKey('spki', key));
+  },
+
+  importPublicKey(b64: string): Promise<CryptoKey> {
+    return crypto.subtle.importKey('spki', fromBase64(b64), { name: 'RSA-OAEP', hash: 'SHA-256' }, true, ['encrypt', 'wrapKey']);
+  },
+
+  generateSigningKeyPair(): Promise<CryptoKeyPair> {
+    return crypto.subtle.generateKey(SIGNING_PARAMS, true, ['sign', 'verify']);
+  },
+
+  importVerifyKey(b64: string): Promise<CryptoKey> {
+    return crypto.subtle.importKey('spki', fromBase64(b64), SIGNING_PARAMS, false, ['verify']);
+  },
+
+  unwrapSigningKey(wrapped: string, iv: string, wrappingKey: CryptoKey): Promise<CryptoKey> {
+    return crypto.subtle.unwrapKey(
+      'pkcs8', fromBase64(wrapped), wrappingKey, { name: 'AES-GCM', iv: fromBase64(iv) },
+      SIGNING_PARAMS, false, ['sign']
+    );
+  },
+
+  async sign(privateKey: CryptoKey, text: string): Promise<string> {
+    return toBase64(await crypto.subtle.sign(SIGNATURE_PARAMS, privateKey, encoder.encode(text)));
+  },
+
+  // Returns false for malformed signatures rather than throwing
+  async verify(publicKey: CryptoKey, signature: string, text: string): Promise<boolean> {
+    try {
+      return await crypto.subtle.verify(SIGNATURE_PARAMS, publicKey, fromBase64(signature), encoder.encode(text));
+    } catch (e) {
+      return false;
+    }
+  },
+
+  // Room password -> HMAC-SHA-256 key material, salted with the room name so equal passwords differ per room
+  async deriveRoomCredential(password: string, roomId: string): Promise<string> {
+    const material = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits(
+      { name: 'PBKDF2', salt: encoder.encode(`ciphertalk-room:${roomId}`), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+      material, 256
+    );
+    return toBase64(bits);
+  },
+
+  importRoomKey(credential: string): Promise<CryptoKey> {
+    return crypto.subtle.importKey('raw', fromBase64(credential), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+  },
+
+  async hmac(key: CryptoKey, text: string): Promise<string> {
+    return toBase64(await crypto.subtle.sign('HMAC', key, encoder.encode(text)));
+  },
+
+  async verifyHmac(key: CryptoKey, mac: string, text: string): Promise<boolean> {
+    try {
+      return await crypto.subtle.verify('HMAC', key, fromBase64(mac), encoder.encode(text));
+    } catch (e) {
+      return false;
+    }
+  },
+
+  // URL-safe random string for nonces and invite tokens
+  randomToken(bytes: number = 16): string {
+    return toBase64(crypto.getRandomValues(new Uint8Array(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  },
+
+  // Short secrets for one recipient, e.g. handing an invited member the room credential
+  async encryptFor(publicKey: CryptoKey, text: string): Promise<string> {
+    return toBase64(await crypto.subtle.encrypt({ name: 'RSA-OAEP' }, publicKey, encoder.encode(text)));
+  },
+
+  async decryptWith(privateKey: CryptoKey, ciphertext: string): Promise<string> {
+    return decoder.decode(await crypto.subtle.decrypt({ name: 'RSA-OAEP' }, privateKey, fromBase64(ciphertext)));
+  },
+
+  // Passphrase -> AES-GCM-256 key via PBKDF2-SHA-256; used to protect keys at rest
+  async deriveKey(passphrase: string, salt: Uint8Array, iterations: number = PBKDF2_ITERATIONS): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+      material, AES_PARAMS, false, ['encrypt', 'decrypt', 'wrapKey', 'unwrapKey']
+    );
+  },
+
+  async wrapPrivateKey(privateKey: CryptoKey, wrappingKey: CryptoKey) {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const wrapped = await crypto.subtle.wrapKey('pkcs8', privateKey, wrappingKey, { name: 'AES-GCM', iv });
+    return { iv: toBase64(iv), wrapped: toBase64(wrapped) };
+  },
+
+  // Unwrapped private keys are non-extractable; throws if the wrapping key is wrong
+  unwrapPrivateKey(wrapped: string, iv: string, wrappingKey: CryptoKey): Promise<CryptoKey> {
+    return crypto.subtle.unwrapKey(
+      'pkcs8', fromBase64(wrapped), wrappingKey, { name: 'AES-GCM', iv: fromBase64(iv) },
+      RSA_PARAMS, false, ['decrypt', 'unwrapKey']
+    );
+  },
+
+  generateSecretKey(): Promise<CryptoKey> {
+    return crypto.subtle.generateKey(AES_PARAMS, true, ['encrypt', 'decrypt']);
+  },
+
+  async wrapSecretKey(key: CryptoKey, wrappingKey: CryptoKey) {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const wrapped = await crypto.subtle.wrapKey('raw', key, wrappingKey, { name: 'AES-GCM', iv });
+    return { iv: toBase64(iv), wrapped: toBase64(wrapped) };
+  },
+
+  unwrapSecretKey(wrapped: string, iv: string, wrappingKey: CryptoKey): Promise<CryptoKey> {
+    return crypto.subtle.unwrapKey(
+      'raw', fromBase64(wrapped), wrappingKey, { name: 'AES-GCM', iv: fromBase64(iv) },
+      AES_PARAMS, false, ['encrypt', 'decrypt']
+    );
+  },
+
+  // Local AES-GCM encryption for data at rest
+  async encryptText(key: CryptoKey, plaintext: string) {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(plaintext));
+    return { iv: toBase64(iv), ciphertext: toBase64(ciphertext) };
+  },
+
+  async decryptText(key: CryptoKey, iv: string, ciphertext: string): Promise<string> {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(ciphertext));
+    return decoder.decode(plaintext);
+  },
+
+  // Binary variant for file chunks; IndexedDB stores the buffers as-is
+  async encryptBytes(key: CryptoKey, data: Uint8Array) {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data);
+    return { iv, ciphertext };
+  },
+
+  async decryptBytes(key: CryptoKey, iv: Uint8Array, ciphertext: ArrayBuffer): Promise<Uint8Array> {
+    return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ciphertext));
+  },
+
+  // Base64 SHA-256, used to check file chunks and whole files
+  async digest(data: Uint8Array | ArrayBuffer): Promise<string> {
+    return toBase64(await crypto.subtle.digest('SHA-256', data));
+  },
+
+  // Short hex digest of an identity key for display
+  async fingerprint(publicKey: string): Promise<string> {
+    const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', fromBase64(publicKey)));
+    return Array.from(hash.slice(0, 12), b => b.toString(16).padStart(2, '0')).join('').toUpperCase().match(/.{4}/g)!.join(' ');
+  },
+
+  // Symmetric safety number: both parties compute the same 60 digits and 16x16 grid
+  async safetyNumber(a: Pick<KeyAnnouncement, 'userId' | 'publicKey' | 'signingKey'>, b: Pick<KeyAnnouncement, 'userId' | 'publicKey' | 'signingKey'>) {
+    const parts = [await partyDigits(a.userId, a.publicKey, a.signingKey), await partyDigits(b.userId, b.publicKey, b.signingKey)].sort();
+    const digits = parts.join('');
+    const gridHash = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(digits)));
+    const grid = Array.from({ length: 256 }, (_, i) => (gridHash[i >> 3] & (0x80 >> (i & 7))) !== 0);
+    return { digits, grid };
+  },
+
+  // Sender keys: each member encrypts with its own AES-GCM-256 key, rotated every epoch
+  generateSenderKey(): Promise<CryptoKey> {
+    return crypto.subtle.generateKey(AES_PARAMS, true, ['encrypt', 'decrypt']);
+  },
+
+  async wrapSenderKey(senderKey: CryptoKey, publicKey: CryptoKey): Promise<string> {
+    return toBase64(await crypto.subtle.wrapKey('raw', senderKey, publicKey, { name: 'RSA-OAEP' }));
+  },
+
+  unwrapSenderKey(wrapped: string, privateKey: CryptoKey): Promise<CryptoKey> {
+    return crypto.subtle.unwrapKey(
+      'raw', fromBase64(wrapped), privateKey, { name: 'RSA-OAEP' },
+      AES_PARAMS, false, ['decrypt']
+    );
+  },
+
+  async encrypt(senderId: string, epoch: number, senderKey: CryptoKey, plaintext: string): Promise<EncryptedEnvelope> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, senderKey, encoder.encode(plaintext));
+    return { senderId, epoch, iv: toBase64(iv), ciphertext: toBase64(ciphertext) };
+  },
+
+  // Returns null when the ciphertext fails authentication
+  async decrypt(envelope: EncryptedEnvelope, senderKey: CryptoKey): Promise<string | null> {
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(envelope.iv) }, senderKey, fromBase64(envelope.ciphertext)
+      );
+      return decoder.decode(plaintext);
+    } catch (e) {
+      console.warn('[Crypto] Failed to decrypt envelope from', envelope.senderId);
+      return null;
+    }
+  },
+};
@@ -0,0 +1,83 @@
+const DB_NAME = 'ciphertalk';
+const DB_VERSION = 5;
+
+interface StoreSchema {
+  name: string;
+  keyPath?: string | string[];
+  indexes?: { name: string; keyPath: string | string[] }[];
+}
+
+// Object stores are only ever added; bump DB_VERSION when adding one
+const STORES: StoreSchema[] = [
+  { name: 'keystore' },
+  { name: 'messages', keyPath: 'id', indexes: [{ name: 'room_time', keyPath: ['roomId', 'timestamp'] }] },
+  { name: 'outbox', keyPath: 'id', indexes: [{ name: 'room', keyPath: 'roomId' }] },
+  { name: 'chunks', keyPath: ['fileId', 'index'], indexes: [{ name: 'file', keyPath: 'fileId' }, { name: 'room', keyPath: 'roomId' }] },
+  { name: 'expiries', keyPath: 'id', indexes: [{ name: 'expires_at', keyPath: 'expiresAt' }, { name: 'room', keyPath: 'roomId' }] },
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORES.forEach(({ name, keyPath, indexes }) => {
+          if (db.objectStoreNames.contains(name)) return;
+          const store = db.createObjectStore(name, keyPath ? { keyPath } : undefined);
+          indexes?.forEach(index => store.createIndex(index.name, index.keyPath));
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const withStore = async <T>(
+  name: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDB();
+  return promisify(fn(db.transaction(name, mode).objectStore(name)));
+};
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Walks a cursor until the visitor returns false or the range is exhausted
+export const iterate = (
+  source: IDBObjectStore | IDBIndex,
+  range: IDBKeyRange,
+  direction: IDBCursorDirection,
+  visit: (cursor: IDBCursorWithValue) => boolean
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const request = source.openCursor(range, direction);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor && visit(cursor)) {
+        cursor.continue();
+      } else {
+        resolve();
+      }
+    };
+    request.onerror = () => reject(request.error);
+  });
@@ -0,0 +1,69 @@
+import { Message, TimerChange } from '../types.ts';
+
+const TIMERS_STORAGE_KEY = 'ciphertalk_v2_timers';
+
+export const TIMER_OPTIONS: { ttl: number; label: string }[] = [
+  { ttl: 0, label: 'Off' },
+  { ttl: 5 * 60 * 1000, label: '5 minutes' },
+  { ttl: 60 * 60 * 1000, label: '1 hour' },
+  { ttl: 24 * 60 * 60 * 1000, label: '1 day' },
+];
+
+const load = (): { [roomId: string]: TimerChange } => {
+  try {
+    return JSON.parse(localStorage.getItem(TIMERS_STORAGE_KEY) || '{}');
+  } catch (e) {
+    console.warn("Failed to load disappearing timers:", e);
+    return {};
+  }
+};
+
+const save = (all: { [roomId: string]: TimerChange }) => {
+  localStorage.setItem(TIMERS_STORAGE_KEY, JSON.stringify(all));
+};
+
+// The sender picks the timestamp, so one dated further ahead than this is refused rather than left to win for good
+export const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export const isFromFuture = (timestamp: number) => timestamp > Date.now() + MAX_CLOCK_SKEW_MS;
+
+// Ties on timestamp go to the lower userId so every peer picks the same change; a stored change
+// from the future (accepted before this check existed) never blocks a real one
+const isNewer = (change: TimerChange, current?: TimerChange) =>
+  !current || isFromFuture(current.timestamp) || change.timestamp > current.timestamp || (change.timestamp === current.timestamp && change.userId < current.userId);
+
+export const labelFor = (ttl: number) => TIMER_OPTIONS.find(o => o.ttl === ttl)?.label || `${Math.round(ttl / 60000)} minutes`;
+
+// Per-room disappearing-message timers; the signed change with the latest timestamp wins everywhere
+export const DisappearingTimers = {
+  get(roomId: string): TimerChange | null {
+    return load()[roomId] || null;
+  },
+
+  ttl(roomId: string): number {
+    return load()[roomId]?.ttl || 0;
+  },
+
+  // Returns false for changes already seen or superseded
+  apply(change: TimerChange): boolean {
+    if (!Number.isFinite(change.ttl) || change.ttl < 0 || isFromFuture(change.timestamp)) return false;
+    const all = load();
+    if (!isNewer(change, all[change.roomId])) return false;
+    save({ ...all, [change.roomId]: change });
+    return true;
+  },
+
+  // Whichever comes first: the sender's stamp or this peer's own timer, so nobody can opt out by omitting it
+  enforce(msg: Message): Message {
+    const ttl = DisappearingTimers.ttl(msg.roomId);
+    if (msg.type === 'system' || (!ttl && !msg.expiresAt)) return msg;
+    const local = ttl ? msg.timestamp + ttl : Infinity;
+    return { ...msg, expiresAt: Math.min(msg.expiresAt ?? Infinity, local) };
+  },
+
+  describe(change: TimerChange): string {
+    return change.ttl
+      ? `${change.username} set messages to disappear after ${labelFor(change.ttl)}.`
+      : `${change.username} turned off disappearing messages.`;
+  },
+};
@@ -0,0 +1,16 @@
+import { Bot } from './botRegistry.ts';
+
+// Needs nothing but this device: handy for trying bots out, and the stand-in when others are unreachable
+export const echoBot: Bot = {
+  id: 'echo',
+  name: 'EchoBot',
+  description: 'Repeats what you say. Works offline.',
+  commands: ['echo'],
+  mention: true,
+  rateLimit: { count: 10, windowMs: 60 * 1000 },
+  async handle({ text }, onText) {
+    const reply = text ? `🔁 ${text}` : 'Say something after the command and I will repeat it.';
+    onText(reply);
+    return reply;
+  },
+};
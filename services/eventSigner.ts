@@ -0,0 +1,40 @@
+import { CryptoService } from './cryptoService.ts';
+
+let signingKey: CryptoKey | null = null;
+const verifyKeys = new Map<string, Promise<CryptoKey>>();
+
+// Stable text to sign: the event name plus the payload's fields in key order, signature excluded.
+// Undefined fields are skipped since they don't survive the trip through JSON.
+const canonical = (event: string, payload: { [key: string]: any }) => {
+  const { signature, ...fields } = payload;
+  const keys = Object.keys(fields).filter(key => fields[key] !== undefined).sort();
+  return JSON.stringify([event, keys.map(key => [key, fields[key]])]);
+};
+
+const verifyKey = (b64: string) => {
+  if (!verifyKeys.has(b64)) verifyKeys.set(b64, CryptoService.importVerifyKey(b64));
+  return verifyKeys.get(b64)!;
+};
+
+// Control events travel inside the group's encryption, but any member can seal anything;
+// the signature ties each one to the identity that claims to have sent it.
+export const EventSigner = {
+  setKey(key: CryptoKey) {
+    signingKey = key;
+  },
+
+  async sign<T extends object>(event: string, payload: T): Promise<T & { signature: string }> {
+    if (!signingKey) throw new Error('No signing key loaded.');
+    return { ...payload, signature: await CryptoService.sign(signingKey, canonical(event, payload)) };
+  },
+
+  async verify(event: string, payload: { signature?: string }, signerKey?: string): Promise<boolean> {
+    if (!payload.signature || !signerKey) return false;
+    try {
+      return await CryptoService.verify(await verifyKey(signerKey), payload.signature, canonical(event, payload));
+    } catch (e) {
+      console.warn('[Signer] Unusable signing key:', e);
+      return false;
+    }
+  },
+};
@@ -0,0 +1,243 @@
+import { Attachment, FileRequest, FileChunk, TransferState } from '../types.ts';
+import { CryptoService } from './cryptoService.ts';
+import { BlobStore } from './blobStore.ts';
+import { socket } from './socketService.ts';
+
+export const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB
+const CHUNK_SIZE = 32 * 1024;
+// Receiver-driven flow control: chunks requested but not yet received
+const WINDOW_SIZE = 16;
+const REQUEST_TIMEOUT_MS = 5000;
+// Receivers usually ask for the same window at once; each chunk goes out once per interval
+const SERVE_DEDUPE_MS = 2000;
+
+type Listener = (transfers: { [fileId: string]: TransferState }) => void;
+
+interface Transfer {
+  attachment: Attachment;
+  roomId: string;
+  isOwn: boolean;
+  have: Set<number>;
+  inFlight: Set<number>;
+  served: Set<number>;
+  attempt: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  state: TransferState;
+  // Serving and verifying are async; chaining keeps each transfer's work in order
+  work: Promise<void>;
+}
+
+const transfers = new Map<string, Transfer>();
+const recentlyServed = new Map<string, number>();
+const listeners = new Set<Listener>();
+
+const notify = () => {
+  const snapshot = Object.fromEntries([...transfers].map(([id, t]) => [id, t.state]));
+  listeners.forEach(listener => listener(snapshot));
+};
+
+const update = (t: Transfer, patch: Partial<TransferState>) => {
+  t.state = { ...t.state, ...patch };
+  notify();
+};
+
+const enqueue = (t: Transfer, task: () => Promise<void>) => {
+  t.work = t.work.then(task).catch(err => console.error(`[Files] Transfer ${t.attachment.id} failed:`, err));
+};
+
+const finish = async (t: Transfer) => {
+  if (t.timer) clearTimeout(t.timer);
+  const blob = await BlobStore.assemble(t.attachment.id, t.attachment.mimeType);
+  if (await CryptoService.digest(await blob.arrayBuffer()) !== t.attachment.hash) {
+    console.warn(`[Files] ${t.attachment.name} failed its integrity check`);
+    await BlobStore.deleteFile(t.attachment.id);
+    update(t, { status: 'failed' });
+    return;
+  }
+  update(t, { status: 'complete', done: t.state.total, url: URL.createObjectURL(blob) });
+};
+
+// Ask for the next missing chunks, keeping at most WINDOW_SIZE outstanding
+const pump = (t: Transfer) => {
+  if (t.state.status !== 'downloading') return;
+  const indexes: number[] = [];
+  for (let i = 0; i < t.state.total && t.inFlight.size + indexes.length < WINDOW_SIZE; i++) {
+    if (!t.have.has(i) && !t.inFlight.has(i)) indexes.push(i);
+  }
+  if (indexes.length === 0) return;
+  indexes.forEach(i => t.inFlight.add(i));
+  const request: FileRequest = { roomId: t.roomId, fileId: t.attachment.id, indexes, attempt: t.attempt };
+  socket.post(t.roomId, 'file_request', request);
+
+  // Nothing back in time: forget what's outstanding and ask again, widening who may answer
+  if (t.timer) clearTimeout(t.timer);
+  t.timer = setTimeout(() => {
+    t.inFlight.clear();
+    t.attempt++;
+    pump(t);
+  }, REQUEST_TIMEOUT_MS);
+};
+
+// Attachment bytes travel separately from messages: the message carries a manifest, receivers
+// pull chunks over the room's data channel and hold them in the blob store.
+export const FileTransfer = {
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  async upload(file: File, roomId: string): Promise<Attachment> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const id = `att-${Date.now()}-${Math.random().toString(36).substr(2, 4)}`;
+    const chunkCount = Math.max(1, Math.ceil(bytes.length / CHUNK_SIZE));
+    for (let i = 0; i < chunkCount; i++) {
+      await BlobStore.putChunk(id, roomId, i, bytes.subarray(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE));
+    }
+
+    const attachment: Attachment = {
+      id,
+      name: file.name,
+      type: file.type.startsWith('image/') ? 'image' : file.type.startsWith('video/') ? 'video' : 'file',
+      mimeType: file.type,
+      size: file.size,
+      hash: await CryptoService.digest(bytes),
+      chunkSize: CHUNK_SIZE,
+      chunkCount,
+    };
+    transfers.set(id, {
+      attachment,
+      roomId,
+      isOwn: true,
+      have: new Set(Array.from({ length: chunkCount }, (_, i) => i)),
+      inFlight: new Set(),
+      served: new Set(),
+      attempt: 1,
+      timer: null,
+      state: { fileId: id, roomId, status: 'uploading', done: 0, total: chunkCount, url: URL.createObjectURL(file) },
+      work: Promise.resolve(),
+    });
+    notify();
+    return attachment;
+  },
+
+  // Called for every attachment we render; starts or picks up a download as needed
+  track(attachment: Attachment, roomId: string, isOwn: boolean) {
+    if (!attachment.chunkCount || transfers.has(attachment.id)) return;
+    const t: Transfer = {
+      attachment,
+      roomId,
+      isOwn,
+      have: new Set(),
+      inFlight: new Set(),
+      served: new Set(),
+      attempt: 1,
+      timer: null,
+      state: { fileId: attachment.id, roomId, status: 'downloading', done: 0, total: attachment.chunkCount, url: undefined },
+      work: Promise.resolve(),
+    };
+    transfers.set(attachment.id, t);
+    enqueue(t, async () => {
+      const missing = new Set(await BlobStore.missing(attachment.id, attachment.chunkCount!));
+      for (let i = 0; i < t.state.total; i++) if (!missing.has(i)) t.have.add(i);
+      update(t, { done: t.have.size });
+      if (missing.size === 0) {
+        await finish(t);
+      } else {
+        pump(t);
+      }
+    });
+  },
+
+  // After a reconnect, re-request whatever was outstanding
+  resume(roomId: string) {
+    transfers.forEach(t => {
+      if (t.roomId !== roomId || t.state.status !== 'downloading') return;
+      t.inFlight.clear();
+      t.attempt = 1;
+      pump(t);
+    });
+  },
+
+  handleRequest(request: FileRequest, roomId: string) {
+    const t = transfers.get(request.fileId);
+    if (!t || t.roomId !== roomId || t.have.size !== t.state.total) return;
+    // The uploader answers first; other holders only step in once it hasn't
+    if (!t.isOwn && request.attempt < 2) return;
+    enqueue(t, async () => {
+      const now = Date.now();
+      recentlyServed.forEach((at, key) => {
+        if (now - at > SERVE_DEDUPE_MS) recentlyServed.delete(key);
+      });
+      for (const index of request.indexes) {
+        const key = `${request.fileId}:${index}`;
+        if (recentlyServed.has(key)) continue;
+        const data = await BlobStore.getChunk(request.fileId, index);
+        if (!data) continue;
+        const chunk: FileChunk = {
+          roomId,
+          fileId: request.fileId,
+          index,
+          data: CryptoService.toBase64(data),
+          hash: await CryptoService.digest(data),
+        };
+        socket.post(roomId, 'file_chunk', chunk);
+        recentlyServed.set(key, now);
+        t.served.add(index);
+      }
+      if (t.state.status === 'uploading') {
+        update(t, { done: t.served.size, status: t.served.size === t.state.total ? 'complete' : 'uploading' });
+      }
+    });
+  },
+
+  handleChunk(chunk: FileChunk, roomId: string) {
+    const t = transfers.get(chunk.fileId);
+    if (!t || t.roomId !== roomId || t.state.status !== 'downloading') return;
+    if (chunk.index < 0 || chunk.index >= t.state.total || t.have.has(chunk.index)) return;
+    enqueue(t, async () => {
+      if (t.have.has(chunk.index)) return;
+      const data = CryptoService.fromBase64(chunk.data);
+      if (await CryptoService.digest(data) !== chunk.hash) {
+        // Left out of `have`, so the next window asks for it again
+        console.warn(`[Files] Chunk ${chunk.index} of ${t.attachment.name} is corrupt`);
+        t.inFlight.delete(chunk.index);
+        return;
+      }
+      await BlobStore.putChunk(chunk.fileId, roomId, chunk.index, data);
+      t.have.add(chunk.index);
+      t.inFlight.delete(chunk.index);
+      t.attempt = 1;
+      update(t, { done: t.have.size });
+      if (t.have.size === t.state.total) {
+        await finish(t);
+      } else if (t.inFlight.size <= WINDOW_SIZE / 2) {
+        pump(t);
+      }
+    });
+  },
+
+  // Drops one attachment everywhere this node holds it: in flight, on screen and at rest
+  async discard(fileId: string) {
+    const t = transfers.get(fileId);
+    if (t) {
+      if (t.timer) clearTimeout(t.timer);
+      if (t.state.url) URL.revokeObjectURL(t.state.url);
+      transfers.delete(fileId);
+      notify();
+    }
+    await BlobStore.deleteFile(fileId);
+  },
+
+  async wipeRoom(roomId: string) {
+    transfers.forEach((t, id) => {
+      if (t.roomId !== roomId) return;
+      if (t.timer) clearTimeout(t.timer);
+      if (t.state.url) URL.revokeObjectURL(t.state.url);
+      transfers.delete(id);
+    });
+    notify();
+    await BlobStore.wipeRoom(roomId);
+  },
+};
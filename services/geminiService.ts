@@ -1,24 +1,56 @@
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, Content } from "@google/genai";
+import { Bot, BotTurn } from './botRegistry.ts';
 
-export async function getGeminiResponse(prompt: string) {
-  try {
-    // Fixed: Initializing GoogleGenAI with the API key directly from process.env.API_KEY as required by the latest SDK guidelines.
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        systemInstruction: "You are 'CipherBot', a security-conscious participant in an end-to-end encrypted chat. You provide helpful, slightly tech-focused answers. Keep responses concise and informative about security protocols.",
-        temperature: 0.7,
-      }
-    });
+const SYSTEM_INSTRUCTION = "You are 'CipherBot', a security-conscious participant in an end-to-end encrypted chat. You provide helpful, slightly tech-focused answers. Keep responses concise and informative about security protocols. Earlier room messages are given as 'Name: text'.";
 
-    // Fixed: Accessing the text property directly on the response object.
-    return response.text;
-  } catch (error) {
-    console.error("Gemini Service Error:", error);
-    return "Error communicating with the security bot. Please check your connection.";
+// Gemini expects turns to alternate, so consecutive messages from the same side are merged
+const toContents = (context: BotTurn[], prompt: string): Content[] => {
+  const contents: Content[] = [];
+  [...context, { role: 'user' as const, name: '', text: prompt }].forEach(turn => {
+    const role = turn.role === 'bot' ? 'model' : 'user';
+    const text = turn.role === 'user' && turn.name ? `${turn.name}: ${turn.text}` : turn.text;
+    const last = contents[contents.length - 1];
+    if (last?.role === role) last.parts!.push({ text });
+    else contents.push({ role, parts: [{ text }] });
+  });
+  return contents;
+};
+
+export async function streamGeminiResponse(prompt: string, context: BotTurn[], onText: (text: string) => void, signal: AbortSignal) {
+  // Fixed: Initializing GoogleGenAI with the API key directly from process.env.API_KEY as required by the latest SDK guidelines.
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+  const stream = await ai.models.generateContentStream({
+    model: 'gemini-3-flash-preview',
+    contents: toContents(context, prompt),
+    config: {
+      systemInstruction: SYSTEM_INSTRUCTION,
+      temperature: 0.7,
+      abortSignal: signal,
+    }
+  });
+
+  let text = '';
+  for await (const chunk of stream) {
+    if (signal.aborted) break;
+    text += chunk.text || '';
+    onText(text);
   }
+  return text;
 }
-///
\ No newline at end of file
+
+export const geminiBot: Bot = {
+  id: 'gemini',
+  name: 'CipherBot',
+  description: 'Answers security questions using Gemini. Sends your prompt and recent messages to Google.',
+  commands: ['ask'],
+  mention: true,
+  rateLimit: { count: 5, windowMs: 60 * 1000 },
+  external: true,
+  isAvailable: () => !!process.env.API_KEY && navigator.onLine,
+  async handle({ text, context, signal }, onText) {
+    const reply = await streamGeminiResponse(text, context, onText, signal);
+    if (!reply && !signal.aborted) throw new Error('CipherBot returned an empty answer.');
+    return reply;
+  },
+};
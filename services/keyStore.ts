@@ -0,0 +1,117 @@
+import { User } from '../types.ts';
+import { CryptoService, PBKDF2_ITERATIONS } from './cryptoService.ts';
+import { withStore } from './db.ts';
+
+const IDENTITY_KEY = 'identity';
+
+interface StoredIdentity {
+  userId: string;
+  username: string;
+  publicKey: string;
+  wrappedPrivateKey: string;
+  iv: string;
+  salt: string;
+  iterations: number;
+  createdAt: number;
+  // Random AES key for data at rest, wrapped under the same passphrase-derived key
+  wrappedStorageKey?: string;
+  storageIv?: string;
+  // ECDSA key pair for signing control events
+  signingPublicKey?: string;
+  wrappedSigningKey?: string;
+  signingIv?: string;
+}
+
+export interface UnlockedIdentity {
+  user: User;
+  keyPair: CryptoKeyPair;
+  storageKey: CryptoKey;
+  signingKey: CryptoKey;
+}
+
+const toUser = (stored: StoredIdentity): User => ({
+  id: stored.userId,
+  username: stored.username,
+  avatar: `https://api.dicebear.com/7.x/avataaars/svg?seed=${stored.username}`,
+  publicKey: stored.publicKey,
+  signingKey: stored.signingPublicKey,
+});
+
+// Long-lived identity: the private key only touches IndexedDB wrapped under the user's passphrase
+export const KeyStore = {
+  async load(): Promise<User | null> {
+    const stored = await withStore<StoredIdentity | undefined>('keystore', 'readonly', s => s.get(IDENTITY_KEY));
+    return stored ? toUser(stored) : null;
+  },
+
+  async create(username: string, passphrase: string): Promise<UnlockedIdentity> {
+    const keyPair = await CryptoService.generateKeyPair();
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const wrappingKey = await CryptoService.deriveKey(passphrase, salt);
+    const { iv, wrapped } = await CryptoService.wrapPrivateKey(keyPair.privateKey, wrappingKey);
+
+    const stored: StoredIdentity = {
+      userId: `u-${Math.random().toString(36).substr(2, 9)}`,
+      username,
+      publicKey: await CryptoService.exportPublicKey(keyPair.publicKey),
+      wrappedPrivateKey: wrapped,
+      iv,
+      salt: CryptoService.toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      createdAt: Date.now(),
+    };
+    await withStore('keystore', 'readwrite', s => s.put(stored, IDENTITY_KEY));
+
+    // Drop the extractable private key in favour of the stored, non-extractable one
+    return KeyStore.unlock(passphrase);
+  },
+
+  async unlock(passphrase: string): Promise<UnlockedIdentity> {
+    const stored = await withStore<StoredIdentity | undefined>('keystore', 'readonly', s => s.get(IDENTITY_KEY));
+    if (!stored) throw new Error('No identity found on this device.');
+
+    const wrappingKey = await CryptoService.deriveKey(passphrase, CryptoService.fromBase64(stored.salt), stored.iterations);
+    let privateKey: CryptoKey;
+    try {
+      privateKey = await CryptoService.unwrapPrivateKey(stored.wrappedPrivateKey, stored.iv, wrappingKey);
+    } catch (e) {
+      throw new Error('Incorrect passphrase.');
+    }
+    const publicKey = await CryptoService.importPublicKey(stored.publicKey);
+
+    // The storage key is minted on first unlock, which also upgrades identities created before it existed
+    if (!stored.wrappedStorageKey || !stored.storageIv) {
+      const { iv, wrapped } = await CryptoService.wrapSecretKey(await CryptoService.generateSecretKey(), wrappingKey);
+      stored.wrappedStorageKey = wrapped;
+      stored.storageIv = iv;
+      await withStore('keystore', 'readwrite', s => s.put(stored, IDENTITY_KEY));
+    }
+    const storageKey = await CryptoService.unwrapSecretKey(stored.wrappedStorageKey, stored.storageIv, wrappingKey);
+
+    // Likewise for the signing key
+    if (!stored.signingPublicKey || !stored.wrappedSigningKey || !stored.signingIv) {
+      const signingPair = await CryptoService.generateSigningKeyPair();
+      const { iv, wrapped } = await CryptoService.wrapPrivateKey(signingPair.privateKey, wrappingKey);
+      stored.signingPublicKey = await CryptoService.exportPublicKey(signingPair.publicKey);
+      stored.wrappedSigningKey = wrapped;
+      stored.signingIv = iv;
+      await withStore('keystore', 'readwrite', s => s.put(stored, IDENTITY_KEY));
+    }
+    const signingKey = await CryptoService.unwrapSigningKey(stored.wrappedSigningKey, stored.signingIv, wrappingKey);
+
+    return { user: toUser(stored), keyPair: { publicKey, privateKey }, storageKey, signingKey };
+  },
+
+  // The display name only; the keys, and so the identity peers verify, stay the same
+  async rename(username: string): Promise<User> {
+    const stored = await withStore<StoredIdentity | undefined>('keystore', 'readonly', s => s.get(IDENTITY_KEY));
+    if (!stored) throw new Error('No identity found on this device.');
+    stored.username = username;
+    await withStore('keystore', 'readwrite', s => s.put(stored, IDENTITY_KEY));
+    return toUser(stored);
+  },
+
+  async destroy() {
+    await withStore('keystore', 'readwrite', s => s.delete(IDENTITY_KEY));
+  },
+};
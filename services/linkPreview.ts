@@ -0,0 +1,82 @@
+import { LinkPreview } from '../types.ts';
+
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_HTML_BYTES = 512 * 1024;
+const THUMBNAIL_SIZE = 160;
+const MAX_TITLE_LENGTH = 120;
+const MAX_DESCRIPTION_LENGTH = 200;
+const SAFE_IMAGE = /^data:image\/(png|jpeg|gif|webp);base64,[A-Za-z0-9+/=]+$/;
+
+const clip = (text: string | null | undefined, max: number) => {
+  const clean = (text || '').replace(/\s+/g, ' ').trim();
+  return clean.length > max ? `${clean.slice(0, max - 1)}…` : clean;
+};
+
+const fetchWithTimeout = async (url: string) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    return await fetch(url, { signal: controller.signal, credentials: 'omit', referrerPolicy: 'no-referrer' });
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Shrinks the page's image to a small JPEG that travels inside the message
+const thumbnail = async (src: string): Promise<string | undefined> => {
+  const response = await fetchWithTimeout(src);
+  if (!response.ok) return undefined;
+  const bitmap = await createImageBitmap(await response.blob());
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+// Previews are built once, by the sender, and sent as part of the message. Receivers only ever render
+// what they were given, so opening a chat never tells a site who is reading about it.
+export const LinkPreviewer = {
+  isSafeImage(src: string) {
+    return SAFE_IMAGE.test(src);
+  },
+
+  // Many sites refuse cross-origin reads; the card then falls back to the address alone
+  async generate(url: string): Promise<LinkPreview> {
+    const fallback: LinkPreview = { url, title: new URL(url).hostname };
+    try {
+      const response = await fetchWithTimeout(url);
+      if (!response.ok || !(response.headers.get('content-type') || '').includes('text/html')) return fallback;
+      const html = (await response.text()).slice(0, MAX_HTML_BYTES);
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      const meta = (...names: string[]) => {
+        for (const name of names) {
+          const value = doc.querySelector(`meta[property="${name}"], meta[name="${name}"]`)?.getAttribute('content');
+          if (value) return value;
+        }
+        return undefined;
+      };
+
+      const preview: LinkPreview = {
+        url,
+        title: clip(meta('og:title', 'twitter:title') || doc.title, MAX_TITLE_LENGTH) || fallback.title,
+        description: clip(meta('og:description', 'twitter:description', 'description'), MAX_DESCRIPTION_LENGTH) || undefined,
+        siteName: clip(meta('og:site_name'), MAX_TITLE_LENGTH) || undefined,
+      };
+      const image = meta('og:image', 'twitter:image');
+      if (image) {
+        try {
+          preview.image = await thumbnail(new URL(image, url).href);
+        } catch (e) {
+          console.log('[Preview] No thumbnail for', url);
+        }
+      }
+      return preview;
+    } catch (e) {
+      console.log('[Preview] Could not read', url, '- using the address only');
+      return fallback;
+    }
+  },
+};
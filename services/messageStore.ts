@@ -0,0 +1,203 @@
+import { Message } from '../types.ts';
+import { CryptoService } from './cryptoService.ts';
+import { openDB, promisify, transactionDone, iterate } from './db.ts';
+
+const RETENTION_STORAGE_KEY = 'ciphertalk_v2_retention';
+export const DEFAULT_RETENTION = 1000; // messages kept per room; 0 keeps everything
+export const PAGE_SIZE = 50;
+
+interface StoredMessage {
+  id: string;
+  roomId: string;
+  timestamp: number;
+  iv: string;
+  ciphertext: string;
+}
+
+// Kept beside the encrypted record so purging never needs to decrypt
+interface ExpiryRecord {
+  id: string;
+  roomId: string;
+  expiresAt: number;
+  fileId?: string;
+}
+
+// What a purge or prune took out, so callers can drop the attachment and index entries with it
+export interface RemovedMessage {
+  id: string;
+  roomId: string;
+  fileId?: string;
+}
+
+let storageKey: CryptoKey | null = null;
+
+const requireKey = () => {
+  if (!storageKey) throw new Error('Message store is locked.');
+  return storageKey;
+};
+
+const roomRange = (roomId: string, before: number = Infinity) =>
+  IDBKeyRange.bound([roomId, -Infinity], [roomId, before], false, true);
+
+const loadRetention = (): { [roomId: string]: number } => {
+  try {
+    return JSON.parse(localStorage.getItem(RETENTION_STORAGE_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+// Message history at rest: one AES-GCM record per message, indexed by room and time
+export const MessageStore = {
+  unlock(key: CryptoKey) {
+    storageKey = key;
+  },
+
+  // Resolves to the messages retention pruned to make room
+  async put(messages: Message[]): Promise<RemovedMessage[]> {
+    if (messages.length === 0) return [];
+    const key = requireKey();
+    const records: StoredMessage[] = await Promise.all(messages.map(async msg => ({
+      id: msg.id,
+      roomId: msg.roomId,
+      timestamp: msg.timestamp,
+      ...(await CryptoService.encryptText(key, JSON.stringify(msg))),
+    })));
+
+    const expiries: ExpiryRecord[] = messages
+      .filter(msg => msg.expiresAt)
+      .map(msg => ({ id: msg.id, roomId: msg.roomId, expiresAt: msg.expiresAt!, fileId: msg.attachment?.id }));
+
+    const db = await openDB();
+    const tx = db.transaction(['messages', 'expiries'], 'readwrite');
+    records.forEach(record => tx.objectStore('messages').put(record));
+    expiries.forEach(expiry => tx.objectStore('expiries').put(expiry));
+    await transactionDone(tx);
+
+    const rooms = new Set(records.map(r => r.roomId));
+    const pruned: RemovedMessage[] = [];
+    for (const roomId of rooms) {
+      pruned.push(...await MessageStore.enforceRetention(roomId));
+    }
+    return pruned;
+  },
+
+  // Newest page older than `before`, returned oldest-first for rendering
+  async loadPage(roomId: string, before: number = Infinity, limit: number = PAGE_SIZE) {
+    const key = requireKey();
+    const db = await openDB();
+    const index = db.transaction('messages', 'readonly').objectStore('messages').index('room_time');
+
+    const records: StoredMessage[] = [];
+    await iterate(index, roomRange(roomId, before), 'prev', cursor => {
+      records.push(cursor.value);
+      return records.length <= limit;
+    });
+
+    const hasMore = records.length > limit;
+    const messages: Message[] = [];
+    for (const record of records.slice(0, limit).reverse()) {
+      try {
+        messages.push(JSON.parse(await CryptoService.decryptText(key, record.iv, record.ciphertext)));
+      } catch (e) {
+        console.warn("Skipping unreadable stored message:", record.id);
+      }
+    }
+    return { messages, hasMore };
+  },
+
+  // Looks messages up by ID; unknown IDs are skipped
+  async get(ids: string[]) {
+    const key = requireKey();
+    const db = await openDB();
+    const store = db.transaction('messages', 'readonly').objectStore('messages');
+    const records = await Promise.all(ids.map(id => promisify<StoredMessage | undefined>(store.get(id))));
+    const messages: Message[] = [];
+    for (const record of records) {
+      if (!record) continue;
+      try {
+        messages.push(JSON.parse(await CryptoService.decryptText(key, record.iv, record.ciphertext)));
+      } catch (e) {
+        console.warn("Skipping unreadable stored message:", record.id);
+      }
+    }
+    return messages;
+  },
+
+  // Deletes the oldest messages past the room's limit, with their expiry rows, and reports what went
+  async enforceRetention(roomId: string): Promise<RemovedMessage[]> {
+    const limit = MessageStore.getRetention(roomId);
+    if (limit <= 0) return [];
+
+    const db = await openDB();
+    const tx = db.transaction(['messages', 'expiries'], 'readwrite');
+    const done = transactionDone(tx);
+    const index = tx.objectStore('messages').index('room_time');
+    let excess = (await promisify(index.count(roomRange(roomId)))) - limit;
+    const records: StoredMessage[] = [];
+    if (excess > 0) {
+      await iterate(index, roomRange(roomId), 'next', cursor => {
+        const record = cursor.value as StoredMessage;
+        records.push(record);
+        tx.objectStore('expiries').delete(record.id);
+        cursor.delete();
+        return --excess > 0;
+      });
+    }
+    await done;
+
+    // The attachment ID only lives inside the ciphertext, so pruned records are read once on the way out
+    const pruned: RemovedMessage[] = [];
+    for (const record of records) {
+      let fileId: string | undefined;
+      try {
+        fileId = (JSON.parse(await CryptoService.decryptText(requireKey(), record.iv, record.ciphertext)) as Message).attachment?.id;
+      } catch (e) {
+        console.warn("Pruned an unreadable stored message:", record.id);
+      }
+      pruned.push({ id: record.id, roomId: record.roomId, fileId });
+    }
+    return pruned;
+  },
+
+  // Deletes every message whose disappearing timer has run out and reports what went
+  async purgeExpired(now: number = Date.now()): Promise<RemovedMessage[]> {
+    const db = await openDB();
+    const tx = db.transaction(['messages', 'expiries'], 'readwrite');
+    const done = transactionDone(tx);
+    const expired: RemovedMessage[] = [];
+    await iterate(tx.objectStore('expiries').index('expires_at'), IDBKeyRange.upperBound(now), 'next', cursor => {
+      const { id, roomId, fileId } = cursor.value as ExpiryRecord;
+      tx.objectStore('messages').delete(id);
+      cursor.delete();
+      expired.push({ id, roomId, fileId });
+      return true;
+    });
+    await done;
+    return expired;
+  },
+
+  async wipeRoom(roomId: string) {
+    const db = await openDB();
+    const tx = db.transaction(['messages', 'expiries'], 'readwrite');
+    const done = transactionDone(tx);
+    await iterate(tx.objectStore('messages').index('room_time'), roomRange(roomId), 'next', cursor => {
+      cursor.delete();
+      return true;
+    });
+    await iterate(tx.objectStore('expiries').index('room'), IDBKeyRange.only(roomId), 'next', cursor => {
+      cursor.delete();
+      return true;
+    });
+    await done;
+  },
+
+  getRetention(roomId: string): number {
+    return loadRetention()[roomId] ?? DEFAULT_RETENTION;
+  },
+
+  setRetention(roomId: string, limit: number) {
+    localStorage.setItem(RETENTION_STORAGE_KEY, JSON.stringify({ ...loadRetention(), [roomId]: limit }));
+    return MessageStore.enforceRetention(roomId);
+  },
+};
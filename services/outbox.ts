@@ -0,0 +1,52 @@
+import { openDB, withStore, transactionDone, iterate } from './db.ts';
+
+// How long to wait for the Host's acknowledgement before sending again; doubles per attempt
+export const ACK_TIMEOUT_MS = 10000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+export interface OutboxEntry {
+  id: string; // Message ID
+  roomId: string;
+  attempts: number;
+  nextAttempt: number;
+}
+
+const retryDelay = (attempts: number) => Math.min(ACK_TIMEOUT_MS * 2 ** attempts, MAX_RETRY_DELAY_MS);
+
+// Own messages the Host hasn't acknowledged yet. Only IDs and timing live here;
+// the contents stay in the encrypted message store.
+export const Outbox = {
+  async add(id: string, roomId: string) {
+    const entry: OutboxEntry = { id, roomId, attempts: 0, nextAttempt: Date.now() + retryDelay(0) };
+    await withStore('outbox', 'readwrite', s => s.put(entry));
+  },
+
+  async due(now: number = Date.now()): Promise<OutboxEntry[]> {
+    const entries = await withStore<OutboxEntry[]>('outbox', 'readonly', s => s.getAll());
+    return entries.filter(entry => entry.nextAttempt <= now);
+  },
+
+  async markAttempt(entry: OutboxEntry) {
+    const attempts = entry.attempts + 1;
+    await withStore('outbox', 'readwrite', s => s.put({ ...entry, attempts, nextAttempt: Date.now() + retryDelay(attempts) }));
+  },
+
+  async remove(ids: string[]) {
+    if (ids.length === 0) return;
+    const db = await openDB();
+    const tx = db.transaction('outbox', 'readwrite');
+    ids.forEach(id => tx.objectStore('outbox').delete(id));
+    await transactionDone(tx);
+  },
+
+  async wipeRoom(roomId: string) {
+    const db = await openDB();
+    const tx = db.transaction('outbox', 'readwrite');
+    const done = transactionDone(tx);
+    await iterate(tx.objectStore('outbox').index('room'), IDBKeyRange.only(roomId), 'next', cursor => {
+      cursor.delete();
+      return true;
+    });
+    await done;
+  },
+};
@@ -0,0 +1,67 @@
+import { PresencePayload, PresenceRecord } from '../types.ts';
+
+const LAST_SEEN_STORAGE_KEY = 'ciphertalk_v2_last_seen';
+export const HEARTBEAT_INTERVAL_MS = 15000;
+// Three missed heartbeats and a member counts as gone
+export const PRESENCE_TIMEOUT_MS = HEARTBEAT_INTERVAL_MS * 3;
+export const AWAY_AFTER_MS = 5 * 60 * 1000;
+const HEARTBEAT_STATES: PresencePayload['state'][] = ['online', 'away'];
+
+type Rooms = { [roomId: string]: { [userId: string]: PresenceRecord } };
+type Listener = (rooms: Rooms) => void;
+
+const load = (): Rooms => {
+  try {
+    return JSON.parse(localStorage.getItem(LAST_SEEN_STORAGE_KEY) || '{}');
+  } catch (e) {
+    console.warn("Failed to load last-seen times:", e);
+    return {};
+  }
+};
+
+// Nobody is online until they say so again, whatever the last session recorded
+let rooms: Rooms = Object.fromEntries(Object.entries(load()).map(([roomId, members]) => [
+  roomId,
+  Object.fromEntries(Object.entries(members).map(([userId, record]) => [userId, { ...record, state: 'offline' as const }])),
+]));
+const listeners = new Set<Listener>();
+
+const set = (roomId: string, record: PresenceRecord) => {
+  rooms = { ...rooms, [roomId]: { ...(rooms[roomId] || {}), [record.userId]: record } };
+  localStorage.setItem(LAST_SEEN_STORAGE_KEY, JSON.stringify(rooms));
+  listeners.forEach(listener => listener(rooms));
+};
+
+// Who is in each room, from their heartbeats; last-seen times outlive the session
+export const Presence = {
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    listener(rooms);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  // Timeouts run on our own clock; the sender's only orders its heartbeats, so a skewed clock can't keep anyone online or offline
+  observe(payload: PresencePayload, receivedAt: number = Date.now()) {
+    if (!HEARTBEAT_STATES.includes(payload.state) || typeof payload.timestamp !== 'number') return;
+    const known = rooms[payload.roomId]?.[payload.userId];
+    // Heartbeats can overtake each other through the Host; once a member has timed out, any heartbeat brings them back
+    if (known && known.state !== 'offline' && known.sentAt !== undefined && known.sentAt > payload.timestamp) return;
+    set(payload.roomId, { userId: payload.userId, username: payload.username, state: payload.state, lastSeen: receivedAt, sentAt: payload.timestamp });
+  },
+
+  depart(roomId: string, userId: string) {
+    const known = rooms[roomId]?.[userId];
+    if (known && known.state !== 'offline') set(roomId, { ...known, state: 'offline' });
+  },
+
+  // Members whose heartbeats stopped without a goodbye
+  sweep(now: number = Date.now()) {
+    Object.entries(rooms).forEach(([roomId, members]) => {
+      Object.values(members).forEach(record => {
+        if (record.state !== 'offline' && now - record.lastSeen > PRESENCE_TIMEOUT_MS) set(roomId, { ...record, state: 'offline' });
+      });
+    });
+  },
+};
@@ -0,0 +1,250 @@
+import { io, Socket } from 'socket.io-client';
+import { KeyAnnouncement, KeyRoster, RekeyEvent, ConnectionStatus, TopologySnapshot } from '../types.ts';
+import { GroupSession, Dispatch } from './transport.ts';
+
+// Wire events this transport sends and listens for; the server relays them (see server/socketHandler.js)
+const RELAYED_EVENTS = [
+    'typing', 'secure', 'sender_key', 'key_announce', 'key_roster', 'rekey',
+    'join_request', 'challenge', 'challenge_response', 'admission_result', 'room_credential', 'ping', 'pong',
+];
+// Stand-in node ID for the server in topology snapshots
+export const RELAY_NODE_ID = 'relay';
+
+interface RelayedPayload {
+  roomId: string;
+  data: any;
+  id: string;
+  from: string; // Sender's socket ID, stamped by the server
+}
+
+// Socket.IO transport for networks where WebRTC can't get through. The server only forwards
+// ciphertext; the longest-standing member it reports plays the Host's part in rekeys.
+export class RelayNetwork extends GroupSession<string> {
+  private socket: Socket | null = null;
+  private coordinator: string = '';
+  private socketUsers: { [socketId: string]: string } = {};
+  // Coordinator only: sockets that passed the challenge but haven't announced a key yet
+  private admitted: Set<string> = new Set();
+
+  constructor(roomId: string, dispatch: Dispatch, private relayUrl: string) {
+    super(roomId, dispatch);
+  }
+
+  connect() {
+    console.log(`[Relay] Connecting to ${this.relayUrl} for ${this.roomId}`);
+    this.triggerLocal('status', { status: 'connecting', label: 'Reaching Relay...' });
+    const socket = io(this.relayUrl);
+    this.socket = socket;
+
+    // Each (re)connection comes with a new socket ID, so it is handled as a fresh join
+    socket.on('connect', () => {
+        this.setPeerId(socket.id!);
+        this.isConnected = false;
+        this.triggerLocal('status', { status: 'connecting', label: 'Joining Room...' });
+        socket.emit('join_room', this.roomId);
+    });
+
+    socket.on('room_joined', ({ roomId, coordinator }: { roomId: string; coordinator: string }) => {
+        if (roomId !== this.roomId) return;
+        this.coordinator = coordinator;
+        this.socketUsers = {};
+        this.isHost = coordinator === socket.id;
+        if (this.isHost) {
+            this.isConnected = true;
+            console.log('[Relay] Coordinating room');
+            this.rotate({ reason: 'created' });
+            this.triggerLocal('status', this.connectedStatus());
+            this.flushQueue();
+        } else {
+            // The server doesn't announce joins, so ask the coordinator to challenge us
+            this.triggerLocal('status', { status: 'connecting', label: 'Awaiting Challenge...' });
+            this.transmit(this.wire('join_request', {}), coordinator);
+        }
+        this.publishTopology();
+    });
+
+    socket.on('peer_left', ({ roomId, socketId, coordinator }: { roomId: string; socketId: string; coordinator: string }) => {
+        if (roomId !== this.roomId) return;
+        const userId = this.socketUsers[socketId];
+        delete this.socketUsers[socketId];
+        const wasHost = this.isHost;
+        this.coordinator = coordinator;
+        this.isHost = coordinator === socket.id;
+        if (this.isHost) {
+            if (!wasHost) console.log('[Relay] Took over as coordinator');
+            this.isConnected = true;
+            this.rotate({ reason: wasHost ? 'leave' : 'failover', userId, username: userId && this.announcements[userId]?.username });
+            this.triggerLocal('status', this.connectedStatus());
+            this.flushQueue();
+        }
+        this.publishTopology();
+    });
+
+    RELAYED_EVENTS.forEach(event => {
+        socket.on(event, (payload: RelayedPayload) => {
+            if (payload?.roomId !== this.roomId) return;
+            const data = { event, data: payload.data, id: payload.id };
+            if (this.accept(data)) this.receive(data, payload.from);
+        });
+    });
+
+    socket.on('connect_error', (err: Error) => {
+        console.error('[Relay] Connection error:', err.message);
+        this.triggerLocal('status', { status: 'error', label: 'Relay Unreachable' });
+    });
+
+    socket.on('disconnect', () => {
+        if (this.isClosed) return;
+        this.isConnected = false;
+        this.triggerLocal('status', { status: 'connecting', label: 'Relay Lost, Reconnecting...' });
+        this.publishTopology();
+    });
+  }
+
+  protected async handle(data: any, from: string) {
+      switch (data.event) {
+          case 'join_request':
+              if (this.isHost) this.challenge(from);
+              break;
+          case 'challenge':
+              if (from === this.coordinator) await this.answerChallenge(from, data.data);
+              break;
+          case 'challenge_response':
+              if (this.isHost) await this.checkResponse(from, data.data);
+              break;
+          case 'admission_result':
+              if (from === this.coordinator) await this.acceptResult(data.data);
+              break;
+          case 'room_credential':
+              if (from === this.coordinator) await this.acceptCredential(data.data);
+              break;
+          case 'key_announce': {
+              const announcement = data.data as KeyAnnouncement;
+              // Only the coordinator takes keys, each from the socket it names; members hear of them in the join's rekey.
+              // Sockets the coordinator hasn't admitted are ignored; members from before a takeover already were.
+              if (!this.isHost || announcement?.peerId !== from) break;
+              if (!this.admitted.has(from) && !this.socketUsers[from]) break;
+              // The relay can't disconnect anyone, but a member left out of rekeys can't read what follows
+              if (this.isBanned(announcement.userId, announcement)) {
+                  console.log(`[Relay] Refusing banned member ${announcement.userId}`);
+                  this.triggerLocal('refused', announcement);
+                  break;
+              }
+              await this.registerKey(announcement);
+              this.socketUsers[from] = announcement.userId;
+              this.admitted.delete(from);
+              // A new member invalidates the current group key
+              const roster: Pick<KeyRoster, 'announcements' | 'roles' | 'invites' | 'timer' | 'topic' | 'botConsents'> = {
+                  announcements: Object.values(this.announcements).filter(a => a.userId !== announcement.userId),
+                  roles: this.roles?.log,
+                  invites: [...this.invites.values()],
+                  timer: this.timer || undefined,
+                  topic: this.topic || undefined,
+                  botConsents: [...this.botConsents.values()],
+              };
+              this.transmit(this.wire('key_roster', roster), from);
+              this.rotate({ reason: 'join', userId: announcement.userId, username: announcement.username, announcement });
+              await this.welcome(from, announcement.userId);
+              break;
+          }
+          case 'key_roster':
+              if (from !== this.coordinator) break;
+              for (const announcement of (data.data as KeyRoster).announcements) {
+                  await this.registerKey(announcement);
+                  if (announcement.peerId) this.socketUsers[announcement.peerId] = announcement.userId;
+              }
+              ((data.data as KeyRoster).roles || []).forEach(change => this.triggerLocal('role_change', change));
+              ((data.data as KeyRoster).invites || []).forEach(grant => this.invites.set(grant.tokenHash, grant));
+              if ((data.data as KeyRoster).timer) this.triggerLocal('timer', (data.data as KeyRoster).timer);
+              if ((data.data as KeyRoster).topic) this.triggerLocal('topic', (data.data as KeyRoster).topic);
+              ((data.data as KeyRoster).botConsents || []).forEach(consent => this.triggerLocal('bot_consent', consent));
+              break;
+          case 'rekey':
+              if (!this.isHost && from === this.coordinator) this.applyRekey(data.data);
+              break;
+          default:
+              await super.handle(data, from);
+      }
+  }
+
+  // Members learn each newcomer's socket from the coordinator, so they can name it if they take over
+  protected applyRekey(rekey: RekeyEvent) {
+      super.applyRekey(rekey);
+      const { announcement } = rekey;
+      if (!this.isHost && announcement?.peerId && rekey.members.includes(announcement.userId)) this.socketUsers[announcement.peerId] = announcement.userId;
+  }
+
+  protected members() {
+      return [this.identity?.user.id, ...Object.values(this.socketUsers)].filter((id): id is string => !!id);
+  }
+
+  protected sendTo(socketId: string, payload: any) {
+      this.transmit(payload, socketId);
+  }
+
+  protected sourceId(socketId: string) {
+      return socketId;
+  }
+
+  protected hostSource() {
+      return this.coordinator || null;
+  }
+
+  protected admit(socketId: string) {
+      this.admitted.add(socketId);
+  }
+
+  // The relay can't disconnect anyone; a refused socket just never gets a roster or keys
+  protected refuse(socketId: string) {
+      this.admitted.delete(socketId);
+  }
+
+  protected onAdmitted() {
+      if (!this.identity) return;
+      // Publish our public key to the coordinator alone; it answers with the room's key roster
+      this.triggerLocal('status', { status: 'connecting', label: 'Exchanging Keys...' });
+      this.transmit(this.wire('key_announce', this.announcements[this.identity.user.id]), this.coordinator);
+  }
+
+  protected dropMember(userId: string) {
+      Object.keys(this.socketUsers).forEach(socketId => {
+          if (this.socketUsers[socketId] === userId) delete this.socketUsers[socketId];
+      });
+  }
+
+  protected connectedStatus(): ConnectionStatus {
+      return this.isHost
+          ? { status: 'host', label: 'Relay Coordinator' }
+          : { status: 'client', label: 'Relay Connected' };
+  }
+
+  protected broadcast(payload: any) {
+      this.transmit(payload);
+  }
+
+  // `to` addresses a single socket; otherwise the server fans out to the rest of the room
+  private transmit(payload: any, to?: string) {
+      if (!this.socket?.connected) return;
+      this.socket.emit(payload.event, { roomId: this.roomId, data: payload.data, id: payload.id, to });
+  }
+
+  protected publishTopology() {
+      if (!this.identity) return;
+      const me = this.identity.user.id;
+      const snapshot: TopologySnapshot = {
+          mode: 'relay',
+          selfId: me,
+          hostId: this.isHost ? me : this.socketUsers[this.coordinator] || null,
+          members: Object.values(this.announcements).map(a => ({ userId: a.userId, username: a.username })),
+          directLinks: this.socket?.connected ? [RELAY_NODE_ID] : [],
+      };
+      this.triggerLocal('topology', snapshot);
+  }
+
+  disconnect() {
+    super.disconnect();
+    this.socket?.removeAllListeners();
+    this.socket?.disconnect();
+    this.socket = null;
+  }
+}
@@ -0,0 +1,142 @@
+import { RoomRoles, RoomRole, RoleChange, KeyAnnouncement } from '../types.ts';
+import { EventSigner } from './eventSigner.ts';
+import { AuditLog } from './auditLog.ts';
+import { TrustStore } from './trustStore.ts';
+
+const ROLES_STORAGE_KEY = 'ciphertalk_v2_roles';
+
+const empty = (): RoomRoles => ({ ownerId: null, moderators: [], banned: [], bannedKeys: {}, keys: {}, log: [] });
+
+const load = (): { [roomId: string]: RoomRoles } => {
+  try {
+    return JSON.parse(localStorage.getItem(ROLES_STORAGE_KEY) || '{}');
+  } catch (e) {
+    console.warn("Failed to load room roles:", e);
+    return {};
+  }
+};
+
+const save = (all: { [roomId: string]: RoomRoles }) => {
+  localStorage.setItem(ROLES_STORAGE_KEY, JSON.stringify(all));
+};
+
+const roleOf = (roles: RoomRoles, userId: string): RoomRole =>
+  roles.ownerId === userId ? 'owner' : roles.moderators.includes(userId) ? 'moderator' : 'member';
+
+// A ban may only name keys this peer has on record for the target, and never one someone else holds
+const checkBannedKeys = (roles: RoomRoles, change: RoleChange): string | null => {
+  const records = TrustStore.all();
+  const claimed = change.targetKeys || [];
+  const roleKeys = Object.entries(roles.keys).filter(([userId]) => userId !== change.targetId).map(([, key]) => key);
+  const othersKeys = Object.values(records).filter(r => r.userId !== change.targetId).flatMap(TrustStore.keysOf);
+  if (claimed.some(k => roleKeys.includes(k) || othersKeys.includes(k))) return 'the ban names keys held by someone else';
+  const onRecord = TrustStore.keysOf(records[change.targetId]);
+  if (records[change.targetId] && claimed.some(k => !onRecord.includes(k))) return 'the ban names keys not on record for the target';
+  return null;
+};
+
+// The key a change must be signed with, or why it isn't allowed at all
+const authorize = (roles: RoomRoles, change: RoleChange): { key: string } | { error: string } => {
+  const actor = roleOf(roles, change.actorId);
+  const target = roleOf(roles, change.targetId);
+  switch (change.action) {
+    case 'claim':
+      if (roles.ownerId) return { error: 'the room already has an owner' };
+      if (change.actorId !== change.targetId || !change.targetKey) return { error: 'a claim must name its own signing key' };
+      return { key: change.targetKey };
+    case 'promote':
+    case 'demote':
+      if (actor !== 'owner') return { error: 'only the owner changes moderators' };
+      if (change.action === 'promote' && (target !== 'member' || !change.targetKey)) return { error: 'only members with a signing key can be promoted' };
+      if (change.action === 'demote' && target !== 'moderator') return { error: 'the target is not a moderator' };
+      break;
+    case 'kick':
+    case 'ban':
+    case 'unban':
+      if (actor === 'member') return { error: 'members cannot moderate' };
+      if (target === 'owner' || (actor === 'moderator' && target === 'moderator')) return { error: 'the target outranks the actor' };
+      if (change.action === 'unban' && !roles.banned.includes(change.targetId)) return { error: 'the target is not banned' };
+      if (change.action === 'ban') {
+        const error = checkBannedKeys(roles, change);
+        if (error) return { error };
+      }
+      break;
+  }
+  const key = roles.keys[change.actorId];
+  return key ? { key } : { error: 'no signing key on record for the actor' };
+};
+
+const applyTo = (roles: RoomRoles, change: RoleChange): RoomRoles => {
+  const without = (ids: string[]) => ids.filter(id => id !== change.targetId);
+  switch (change.action) {
+    case 'claim':
+      return { ...roles, ownerId: change.targetId, keys: { ...roles.keys, [change.targetId]: change.targetKey! }, log: [...roles.log, change] };
+    case 'promote':
+      return { ...roles, moderators: [...roles.moderators, change.targetId], keys: { ...roles.keys, [change.targetId]: change.targetKey! }, log: [...roles.log, change] };
+    case 'demote': {
+      const { [change.targetId]: _, ...keys } = roles.keys;
+      return { ...roles, moderators: without(roles.moderators), keys, log: [...roles.log, change] };
+    }
+    case 'ban': {
+      const { [change.targetId]: _, ...keys } = roles.keys;
+      // Each peer bans the keys it knows the target by, not the list the actor sent
+      const bannedKeys = { ...roles.bannedKeys, [change.targetId]: TrustStore.keysOf(TrustStore.all()[change.targetId]) };
+      return { ...roles, moderators: without(roles.moderators), banned: [...without(roles.banned), change.targetId], bannedKeys, keys, log: [...roles.log, change] };
+    }
+    case 'unban': {
+      const { [change.targetId]: _, ...bannedKeys } = roles.bannedKeys;
+      return { ...roles, banned: without(roles.banned), bannedKeys, log: [...roles.log, change] };
+    }
+    case 'kick':
+      return roles;
+  }
+};
+
+// Room roles are a signed log rooted in the owner's claim; every peer replays and checks it independently
+export const RoleStore = {
+  roleOf,
+
+  // Stored state from before bans held keys lacks them
+  get(roomId: string): RoomRoles {
+    return { ...empty(), ...load()[roomId] };
+  },
+
+  // Whether a ban covers this user, by userId or by any key they present
+  isBanned(roles: RoomRoles, who: Pick<KeyAnnouncement, 'userId' | 'publicKey' | 'signingKey'>): boolean {
+    if (roles.banned.includes(who.userId)) return true;
+    const keys = Object.values(roles.bannedKeys).flat();
+    return keys.includes(who.publicKey) || (!!who.signingKey && keys.includes(who.signingKey));
+  },
+
+  // Returns the new state, or null for duplicates and changes that fail verification
+  async apply(change: RoleChange): Promise<RoomRoles | null> {
+    const roles = RoleStore.get(change.roomId);
+    if (change.signature && roles.log.some(c => c.signature === change.signature)) return null;
+
+    const check = authorize(roles, change);
+    const reason = 'error' in check
+      ? check.error
+      : await EventSigner.verify('role_change', change, check.key) ? null : 'bad or missing signature';
+    if (reason) {
+      AuditLog.record({ roomId: change.roomId, category: 'unauthorized_event', summary: `Rejected ${change.action} of ${change.targetName} by ${change.actorId}: ${reason}`, data: change });
+      return null;
+    }
+
+    const next = applyTo(roles, change);
+    if (next !== roles) save({ ...load(), [change.roomId]: next });
+    return next;
+  },
+
+  // Owners and moderators always appear as the target of an earlier change, which names them
+  describe(change: RoleChange): string {
+    const actor = RoleStore.get(change.roomId).log.find(c => c.targetId === change.actorId)?.targetName || 'A moderator';
+    switch (change.action) {
+      case 'claim': return `${change.targetName} now owns this room.`;
+      case 'promote': return `${actor} made ${change.targetName} a moderator.`;
+      case 'demote': return `${actor} removed ${change.targetName} as a moderator.`;
+      case 'kick': return `${actor} removed ${change.targetName} from the room.`;
+      case 'ban': return `${actor} banned ${change.targetName}.`;
+      case 'unban': return `${actor} lifted the ban on ${change.targetName}.`;
+    }
+  },
+};
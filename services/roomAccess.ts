@@ -0,0 +1,55 @@
+import { Invite } from '../types.ts';
+import { CryptoService } from './cryptoService.ts';
+import { withStore } from './db.ts';
+
+const CREDENTIALS_KEY = 'room-credentials';
+const INVITE_PARAM = 'invite';
+export const INVITE_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface StoredCredentials {
+  iv: string;
+  ciphertext: string;
+}
+
+let storageKey: CryptoKey | null = null;
+
+const load = async (): Promise<{ [roomId: string]: string }> => {
+  const stored = await withStore<StoredCredentials | undefined>('keystore', 'readonly', s => s.get(CREDENTIALS_KEY));
+  if (!stored || !storageKey) return {};
+  return JSON.parse(await CryptoService.decryptText(storageKey, stored.iv, stored.ciphertext));
+};
+
+// Room credentials are as sensitive as the passwords they come from: kept encrypted under the storage key
+export const RoomAccess = {
+  unlock(key: CryptoKey) {
+    storageKey = key;
+  },
+
+  async getCredential(roomId: string): Promise<string | undefined> {
+    return (await load())[roomId];
+  },
+
+  async setCredential(roomId: string, credential: string) {
+    if (!storageKey) throw new Error('Room credentials are locked.');
+    const all = { ...(await load()), [roomId]: credential };
+    const record: StoredCredentials = await CryptoService.encryptText(storageKey, JSON.stringify(all));
+    await withStore('keystore', 'readwrite', s => s.put(record, CREDENTIALS_KEY));
+  },
+
+  inviteLink(invite: Invite): string {
+    const encoded = btoa(JSON.stringify(invite));
+    return `${window.location.origin}${window.location.pathname}#${INVITE_PARAM}=${encodeURIComponent(encoded)}`;
+  },
+
+  // Accepts a full link or just the part after `#invite=`; returns null for anything else
+  parseInvite(text: string): Invite | null {
+    const match = text.trim().match(new RegExp(`(?:#${INVITE_PARAM}=)?([A-Za-z0-9+/=%]+)$`));
+    if (!match) return null;
+    try {
+      const invite = JSON.parse(atob(decodeURIComponent(match[1])));
+      return typeof invite?.roomId === 'string' && typeof invite?.token === 'string' ? invite : null;
+    } catch (e) {
+      return null;
+    }
+  },
+};
@@ -0,0 +1,46 @@
+import { TopicChange } from '../types.ts';
+import { isFromFuture } from './disappearingTimers.ts';
+
+const TOPICS_STORAGE_KEY = 'ciphertalk_v2_topics';
+
+const load = (): { [roomId: string]: TopicChange } => {
+  try {
+    return JSON.parse(localStorage.getItem(TOPICS_STORAGE_KEY) || '{}');
+  } catch (e) {
+    console.warn("Failed to load room topics:", e);
+    return {};
+  }
+};
+
+const save = (all: { [roomId: string]: TopicChange }) => {
+  localStorage.setItem(TOPICS_STORAGE_KEY, JSON.stringify(all));
+};
+
+// Same tie-break and clock-skew limit as timers, so every peer settles on the same topic
+const isNewer = (change: TopicChange, current?: TopicChange) =>
+  !current || isFromFuture(current.timestamp) || change.timestamp > current.timestamp || (change.timestamp === current.timestamp && change.userId < current.userId);
+
+export const RoomTopics = {
+  get(roomId: string): TopicChange | null {
+    return load()[roomId] || null;
+  },
+
+  topic(roomId: string): string {
+    return load()[roomId]?.topic || '';
+  },
+
+  // Returns false for changes already seen or superseded
+  apply(change: TopicChange): boolean {
+    if (typeof change.topic !== 'string' || isFromFuture(change.timestamp)) return false;
+    const all = load();
+    if (!isNewer(change, all[change.roomId])) return false;
+    save({ ...all, [change.roomId]: change });
+    return true;
+  },
+
+  describe(change: TopicChange): string {
+    return change.topic
+      ? `${change.username} set the topic to "${change.topic}".`
+      : `${change.username} cleared the topic.`;
+  },
+};
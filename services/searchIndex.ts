@@ -0,0 +1,191 @@
+import { Message } from '../types.ts';
+import { MessageStore } from './messageStore.ts';
+
+const INDEX_PAGE_SIZE = 500;
+const MAX_RESULTS = 50;
+const SNIPPET_RADIUS = 40;
+
+export interface IndexedMessage {
+  id: string;
+  roomId: string;
+  senderName: string;
+  content: string;
+  timestamp: number;
+  attachmentName?: string;
+  attachmentType?: 'image' | 'video' | 'file';
+  tokens: string[];
+}
+
+export interface SearchQuery {
+  terms: string[];
+  from?: string;
+  has: ('image' | 'file')[];
+  before?: number;
+  after?: number;
+}
+
+export interface SearchHit {
+  message: IndexedMessage;
+  // Neighbouring messages in the room's timeline
+  previous?: IndexedMessage;
+  next?: IndexedMessage;
+  snippet: string;
+}
+
+const tokenize = (text: string) => text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+// Plain dates mean local midnight; anything else Date.parse understands is taken as-is
+const parseDate = (text: string): number | undefined => {
+  const day = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const time = day ? new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3])).getTime() : Date.parse(text);
+  return Number.isNaN(time) ? undefined : time;
+};
+
+// Splits `from:alex has:image budget "q3 plan"` into filters and free-text terms
+export const parseQuery = (text: string): SearchQuery => {
+  const query: SearchQuery = { terms: [], has: [] };
+  const parts = text.match(/(\w+:)?("[^"]*"|\S+)/g) || [];
+  parts.forEach(part => {
+    const filter = part.match(/^(from|has|before|after):(.+)$/i);
+    const value = (filter ? filter[2] : part).replace(/^"|"$/g, '');
+    if (!filter) {
+      query.terms.push(...tokenize(value));
+      return;
+    }
+    switch (filter[1].toLowerCase()) {
+      case 'from': query.from = value.toLowerCase(); break;
+      case 'has': if (value === 'image' || value === 'file') query.has.push(value); break;
+      case 'before': query.before = parseDate(value); break;
+      case 'after': query.after = parseDate(value); break;
+    }
+  });
+  return query;
+};
+
+const postings = new Map<string, Set<string>>();
+const documents = new Map<string, IndexedMessage>();
+// Each room's documents in timeline order, for context around a hit
+const timelines = new Map<string, IndexedMessage[]>();
+const indexedRooms = new Set<string>();
+
+// Binary search for the first document newer than `timestamp`
+const insertionPoint = (timeline: IndexedMessage[], timestamp: number) => {
+  let low = 0;
+  let high = timeline.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (timeline[mid].timestamp > timestamp) high = mid; else low = mid + 1;
+  }
+  return low;
+};
+
+const unindex = (id: string) => {
+  const doc = documents.get(id);
+  if (!doc) return;
+  doc.tokens.forEach(token => {
+    const ids = postings.get(token);
+    ids?.delete(id);
+    if (ids?.size === 0) postings.delete(token);
+  });
+  documents.delete(id);
+  const timeline = timelines.get(doc.roomId) || [];
+  const at = timeline.indexOf(doc);
+  if (at >= 0) timeline.splice(at, 1);
+};
+
+const index = (msg: Message) => {
+  unindex(msg.id);
+  if (msg.type === 'system' || msg.isDeleted) return;
+  const doc: IndexedMessage = {
+    id: msg.id,
+    roomId: msg.roomId,
+    senderName: msg.senderName,
+    content: msg.content,
+    timestamp: msg.timestamp,
+    attachmentName: msg.attachment?.name,
+    attachmentType: msg.attachment?.type,
+    tokens: [...new Set(tokenize(`${msg.content} ${msg.attachment?.name || ''}`))],
+  };
+  documents.set(doc.id, doc);
+  doc.tokens.forEach(token => {
+    if (!postings.has(token)) postings.set(token, new Set());
+    postings.get(token)!.add(doc.id);
+  });
+  if (!timelines.has(doc.roomId)) timelines.set(doc.roomId, []);
+  const timeline = timelines.get(doc.roomId)!;
+  timeline.splice(insertionPoint(timeline, doc.timestamp), 0, doc);
+};
+
+// Every indexed token that starts with the term, so results follow along while typing
+const matching = (term: string): Set<string> => {
+  const ids = new Set<string>();
+  postings.forEach((docIds, token) => {
+    if (token.startsWith(term)) docIds.forEach(id => ids.add(id));
+  });
+  return ids;
+};
+
+const snippetFor = (doc: IndexedMessage, terms: string[]) => {
+  const text = doc.content || doc.attachmentName || '';
+  const lower = text.toLowerCase();
+  const at = terms.map(term => lower.indexOf(term)).filter(i => i >= 0).sort((a, b) => a - b)[0] ?? 0;
+  const start = Math.max(0, at - SNIPPET_RADIUS);
+  const end = Math.min(text.length, at + SNIPPET_RADIUS * 2);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
+
+// Decrypted history is indexed in memory only; it's rebuilt from the message store on every unlock
+export const SearchIndex = {
+  // Reads a room's whole stored history once, newest first, in the background
+  async indexRoom(roomId: string) {
+    if (indexedRooms.has(roomId)) return;
+    indexedRooms.add(roomId);
+    let before = Infinity;
+    let hasMore = true;
+    while (hasMore) {
+      const page = await MessageStore.loadPage(roomId, before, INDEX_PAGE_SIZE);
+      // Live updates may have indexed a newer copy already
+      page.messages.filter(m => !documents.has(m.id)).forEach(index);
+      hasMore = page.hasMore && page.messages.length > 0;
+      if (page.messages.length > 0) before = page.messages[0].timestamp;
+    }
+    console.log(`[Search] Indexed ${timelines.get(roomId)?.length || 0} messages in ${roomId}`);
+  },
+
+  update(messages: Message[]) {
+    messages.forEach(index);
+  },
+
+  remove(ids: string[]) {
+    ids.forEach(unindex);
+  },
+
+  removeRoom(roomId: string) {
+    [...(timelines.get(roomId) || [])].forEach(doc => unindex(doc.id));
+    timelines.delete(roomId);
+  },
+
+  search(roomId: string, text: string): SearchHit[] {
+    const query = parseQuery(text);
+    const hasFilter = query.from || query.has.length > 0 || query.before !== undefined || query.after !== undefined;
+    if (query.terms.length === 0 && !hasFilter) return [];
+
+    const timeline = timelines.get(roomId) || [];
+    let candidates: IndexedMessage[] = timeline;
+    query.terms.forEach(term => {
+      const ids = matching(term);
+      candidates = candidates.filter(doc => ids.has(doc.id));
+    });
+    candidates = candidates.filter(doc =>
+      (!query.from || doc.senderName.toLowerCase().startsWith(query.from)) &&
+      query.has.every(kind => kind === 'image' ? doc.attachmentType === 'image' : !!doc.attachmentType) &&
+      (query.before === undefined || doc.timestamp < query.before) &&
+      (query.after === undefined || doc.timestamp >= query.after)
+    );
+
+    return candidates.slice(-MAX_RESULTS).reverse().map(doc => {
+      const at = timeline.indexOf(doc);
+      return { message: doc, previous: timeline[at - 1], next: timeline[at + 1], snippet: snippetFor(doc, query.terms) };
+    });
+  },
+};
@@ -0,0 +1,194 @@
+import { BotRegistry, triggersOf } from './botRegistry.ts';
+
+// What a command may do; App supplies these so commands never touch state directly
+export interface CommandContext {
+  roomId: string;
+  notice(text: string): void; // Shown to this user only
+  sendEmote(action: string): Promise<void>;
+  setNick(username: string): Promise<void>;
+  clearView(): void;
+  getTopic(): string;
+  setTopic(topic: string): Promise<void>;
+  setTimer(ttl: number): Promise<void>;
+  exportRoom(): Promise<void>;
+  getBotsEnabled(): boolean;
+  setBotsEnabled(enabled: boolean): void;
+}
+
+export interface CommandArg {
+  name: string;
+  optional?: boolean;
+  rest?: boolean; // Takes everything that's left, quotes and all
+}
+
+export interface SlashCommand {
+  name: string;
+  description: string;
+  args: CommandArg[];
+  run(args: string[], ctx: CommandContext): Promise<void> | void;
+}
+
+export interface ParsedCommand {
+  name: string;
+  argv: string; // Everything after the name
+}
+
+export interface CommandSuggestion {
+  name: string;
+  usage: string;
+  description: string;
+}
+
+// Thrown for anything the user should fix; the composer shows the message inline
+export class CommandError extends Error {}
+
+const NICK_MAX_LENGTH = 32;
+const TOPIC_MAX_LENGTH = 200;
+const DURATION_UNITS: { [unit: string]: number } = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+const MIN_TTL_MS = 60 * 1000;
+
+const commands = new Map<string, SlashCommand>();
+
+export const usageOf = (command: Pick<SlashCommand, 'name' | 'args'>) =>
+  [`/${command.name}`, ...command.args.map(a => a.optional ? `[${a.name}]` : `<${a.name}>`)].join(' ');
+
+export const parseCommand = (input: string): ParsedCommand | null => {
+  const match = input.match(/^\/(\S*)\s*([\s\S]*)$/);
+  return match ? { name: match[1].toLowerCase(), argv: match[2].trim() } : null;
+};
+
+// Whitespace-separated words, with "double quotes" grouping; a `rest` arg keeps the raw remainder
+const splitArgs = (argv: string, spec: CommandArg[]): string[] => {
+  const args: string[] = [];
+  let remaining = argv;
+  for (const arg of spec) {
+    if (!remaining) break;
+    if (arg.rest) {
+      args.push(remaining);
+      remaining = '';
+      break;
+    }
+    const word = remaining.match(/^("([^"]*)"|\S+)\s*/)!;
+    args.push(word[2] ?? word[1]);
+    remaining = remaining.slice(word[0].length);
+  }
+  if (remaining) throw new CommandError('Too many arguments.');
+  return args;
+};
+
+// "90s", "5m", "1h", "2d" or "off"
+export const parseDuration = (text: string): number | null => {
+  if (/^(off|0)$/i.test(text)) return 0;
+  const match = text.match(/^(\d+)\s*([smhd])$/i);
+  return match ? Number(match[1]) * DURATION_UNITS[match[2].toLowerCase()] : null;
+};
+
+export const SlashCommands = {
+  register(command: SlashCommand) {
+    commands.set(command.name, command);
+  },
+
+  // Built-ins first, then bot commands, which are sent as ordinary messages for the bot to answer
+  complete(input: string): CommandSuggestion[] {
+    const parsed = parseCommand(input);
+    if (!parsed || /\s/.test(input)) return [];
+    const own = [...commands.values()].map(c => ({ name: c.name, usage: usageOf(c), description: c.description }));
+    const bots = BotRegistry.list().flatMap(bot => bot.commands.map(name => ({
+      name, usage: `/${name} <message>`, description: `Ask ${bot.name}`,
+    })));
+    return [...own, ...bots].filter(s => s.name.startsWith(parsed.name));
+  },
+
+  // Whether the composer should run this input rather than send it
+  handles(input: string): boolean {
+    const parsed = parseCommand(input);
+    return !!parsed && !BotRegistry.list().some(bot => bot.commands.includes(parsed.name));
+  },
+
+  async run(input: string, ctx: CommandContext) {
+    const parsed = parseCommand(input);
+    if (!parsed) throw new CommandError('Not a command.');
+    const command = commands.get(parsed.name);
+    if (!command) throw new CommandError(`Unknown command /${parsed.name}. Type /help to see what's available.`);
+    const args = splitArgs(parsed.argv, command.args);
+    if (args.length < command.args.filter(a => !a.optional).length) throw new CommandError(`Usage: ${usageOf(command)}`);
+    console.log(`[Commands] /${command.name}`);
+    await command.run(args, ctx);
+  },
+};
+
+SlashCommands.register({
+  name: 'help',
+  description: 'List the available commands',
+  args: [],
+  run: (_, ctx) => ctx.notice(SlashCommands.complete('/').map(s => `${s.usage} — ${s.description}`).join('\n')),
+});
+
+SlashCommands.register({
+  name: 'me',
+  description: 'Describe what you are doing',
+  args: [{ name: 'action', rest: true }],
+  run: ([action], ctx) => ctx.sendEmote(action),
+});
+
+SlashCommands.register({
+  name: 'nick',
+  description: 'Change your display name',
+  args: [{ name: 'name', rest: true }],
+  run: ([name], ctx) => {
+    if (name.length > NICK_MAX_LENGTH) throw new CommandError(`Names can be at most ${NICK_MAX_LENGTH} characters.`);
+    return ctx.setNick(name);
+  },
+});
+
+SlashCommands.register({
+  name: 'clear',
+  description: 'Clear this room from your screen; history stays stored',
+  args: [],
+  run: (_, ctx) => ctx.clearView(),
+});
+
+SlashCommands.register({
+  name: 'topic',
+  description: 'Show or set the room topic ("none" clears it)',
+  args: [{ name: 'topic', optional: true, rest: true }],
+  run: ([topic], ctx) => {
+    if (topic === undefined) return ctx.notice(ctx.getTopic() ? `Topic: ${ctx.getTopic()}` : 'This room has no topic.');
+    if (topic.length > TOPIC_MAX_LENGTH) throw new CommandError(`Topics can be at most ${TOPIC_MAX_LENGTH} characters.`);
+    return ctx.setTopic(topic.toLowerCase() === 'none' ? '' : topic);
+  },
+});
+
+SlashCommands.register({
+  name: 'ttl',
+  description: 'Set the disappearing-message timer, e.g. 30m, 1h, 1d or off',
+  args: [{ name: 'duration' }],
+  run: ([text], ctx) => {
+    const ttl = parseDuration(text);
+    if (ttl === null) throw new CommandError(`"${text}" isn't a duration. Try 30m, 1h, 1d or off.`);
+    if (ttl > 0 && ttl < MIN_TTL_MS) throw new CommandError('The shortest timer is 1 minute.');
+    return ctx.setTimer(ttl);
+  },
+});
+
+SlashCommands.register({
+  name: 'export',
+  description: "Download this room's stored history as JSON",
+  args: [],
+  run: (_, ctx) => ctx.exportRoom(),
+});
+
+SlashCommands.register({
+  name: 'bot',
+  description: 'Turn bots on or off, or list them',
+  args: [{ name: 'on|off|list', optional: true }],
+  run: ([mode = 'list'], ctx) => {
+    if (mode === 'on' || mode === 'off') {
+      ctx.setBotsEnabled(mode === 'on');
+      return ctx.notice(`Bots are ${mode}.`);
+    }
+    if (mode !== 'list') throw new CommandError('Usage: /bot [on|off|list]');
+    const bots = BotRegistry.list().map(bot => `${bot.name}: ${triggersOf(bot)}`);
+    ctx.notice(`Bots are ${ctx.getBotsEnabled() ? 'on' : 'off'}.\n${bots.join('\n')}`);
+  },
+});
@@ -1,82 +1,107 @@
 import { Peer, DataConnection } from "https://esm.sh/peerjs@1.5.4?bundle-deps";
+import { User, KeyAnnouncement, KeyRoster, RekeyEvent, Topology, TopologySnapshot, JoinOptions, ConnectionStatus, RoomRoles, TimerChange, TopicChange, BotConsent, Admission, InviteGrant } from '../types.ts';
+import { GroupSession, RoomTransport, Dispatch, HOST_ONLY_EVENTS, ADMISSION_EVENTS, PROBE_EVENTS } from './transport.ts';
+import { RelayNetwork } from './relayTransport.ts';
 
-type Handler = (data: any) => void;
+type Handler = (data: any, roomId: string) => void;
 
-class P2PNetwork {
+// Host re-election: exponential backoff with jitter so survivors don't all claim the ID at once
+const FAILOVER_BASE_DELAY_MS = 500;
+const FAILOVER_MAX_DELAY_MS = 8000;
+const CONNECT_TIMEOUT_MS = 8000;
+// Newcomers that haven't passed the Host's challenge by then are dropped, as are mesh links the Host hasn't vouched for
+const ADMISSION_TIMEOUT_MS = 10000;
+// Data a mesh link may queue while it waits on the Host; anything past this is dropped
+const PENDING_MESH_LIMIT = 200;
+// Long enough for a refusal to reach the peer before its connection goes
+const REFUSE_CLOSE_DELAY_MS = 1000;
+export const DEFAULT_RELAY_URL = 'http://localhost:3001';
+
+// PeerJS transport: one WebRTC session per joined room; each has its own host, keys and epoch
+class P2PNetwork extends GroupSession<DataConnection> {
   private peer: Peer | null = null;
   private connections: DataConnection[] = [];
   private hostConn: DataConnection | null = null;
-  private handlers: { [event: string]: Handler[] } = {};
-  private isHost: boolean = false;
-  private messageQueue: any[] = [];
-  private isConnected: boolean = false;
-  private myPeerId: string = '';
-
-  constructor() {}
-
-  on(event: string, handler: Handler) {
-    if (!this.handlers[event]) this.handlers[event] = [];
-    this.handlers[event].push(handler);
-  }
+  // Mesh mode: direct links to other clients, discovered through the Host's roster
+  private meshConns: DataConnection[] = [];
+  // Mesh links dialled by peers the Host hasn't named to us yet; they wait for its rekey, holding what they sent meanwhile
+  private pendingMesh = new Map<DataConnection, any[]>();
+  private topology: Topology;
+  private hostId: string = '';
+  private failoverAttempt: number = 0;
+  private failoverTimer: ReturnType<typeof setTimeout> | null = null;
+  private connUsers: { [peerId: string]: string } = {};
 
-  off(event: string, handler: Handler) {
-    if (!this.handlers[event]) return;
-    this.handlers[event] = this.handlers[event].filter(h => h !== handler);
-  }
-
-  emit(event: string, data: any) {
-    const payload = { event, data };
-    
-    // 1. Trigger locally immediately for optimistic UI
-    this.triggerLocal(event, data);
-
-    // 2. Send to network
-    if (this.isConnected) {
-        this.broadcast(payload);
-    } else {
-        this.messageQueue.push(payload);
-    }
+  // The Host picks the room's topology; clients adopt it from the roster
+  constructor(roomId: string, dispatch: Dispatch, preferredTopology: Topology) {
+    super(roomId, dispatch);
+    this.topology = preferredTopology;
   }
 
-  connect(roomId: string) {
+  connect() {
     // Generate a deterministic Room ID for the Host
     // Remove special chars to ensure PeerJS compatibility
-    const cleanRoomId = roomId.trim().replace(/[^a-zA-Z0-9]/g, '').toLowerCase();
+    const cleanRoomId = this.roomId.trim().replace(/[^a-zA-Z0-9]/g, '').toLowerCase();
     
     // We use a specific prefix to avoid colliding with other PeerJS users
-    const hostId = `ciphertalk-v2-${cleanRoomId}`;
+    this.hostId = `ciphertalk-v2-${cleanRoomId}`;
 
-    console.log(`[P2P] Connecting to spectrum: ${hostId}`);
+    console.log(`[P2P] Connecting to spectrum: ${this.hostId}`);
     this.triggerLocal('status', { status: 'connecting', label: 'Resolving Host...' });
+    this.claimHost('created');
+  }
 
-    // ATTEMPT 1: Try to register as the Host
-    const peer = new Peer(hostId);
+  // Try to register the deterministic host ID; whoever gets it is the Host, everyone else joins as a Client
+  private claimHost(reason: 'created' | 'failover') {
+    this.peer?.destroy();
+    const peer = new Peer(this.hostId);
+    this.peer = peer;
 
     peer.on('open', (id) => {
         // Success! We are the Host.
         this.isHost = true;
-        this.peer = peer;
-        this.myPeerId = id;
-        this.isConnected = true;
+        this.setPeerId(id);
+        this.failoverAttempt = 0;
         this.triggerLocal('status', { status: 'host', label: 'Host Node Active' });
-        this.flushQueue();
-        
-        console.log('[P2P] Initialized as Host');
+
+        if (reason === 'failover') {
+            // Membership is rebuilt from the clients that reconnect; queued messages wait for the first of them
+            this.hostConn = null;
+            this.connections = [];
+            this.meshConns = [];
+            this.pendingMesh.forEach((_, c) => c.close());
+            this.pendingMesh.clear();
+            this.connUsers = {};
+            console.log('[P2P] Won host election');
+        } else {
+            this.isConnected = true;
+            console.log('[P2P] Initialized as Host');
+        }
+        this.rotate({ reason });
+        if (this.isConnected) this.flushQueue();
+        this.publishTopology();
 
         peer.on('connection', (conn) => {
             console.log('[P2P] Incoming connection');
-            this.connections.push(conn);
+            // Not a member, and not in `connections`, until it passes the challenge
             this.setupConnection(conn);
+            conn.on('open', () => this.challenge(conn));
+            setTimeout(() => {
+                if (!this.connections.includes(conn)) conn.close();
+            }, ADMISSION_TIMEOUT_MS);
         });
     });
 
     peer.on('error', (err: any) => {
+        if (this.isClosed) return;
         if (err.type === 'unavailable-id') {
             // ID is taken, which means a Host already exists.
             // We should connect as a Client.
             console.log('[P2P] Host detected, switching to Relay Mode...');
             this.triggerLocal('status', { status: 'connecting', label: 'Handshaking...' });
-            this.connectAsClient(hostId);
+            this.connectAsClient();
+        } else if (reason === 'failover') {
+            this.scheduleFailover();
         } else {
             console.error('[P2P] Peer Error:', err);
             this.triggerLocal('status', { status: 'error', label: 'Connection Failed' });
@@ -84,91 +109,437 @@ class P2PNetwork {
     });
   }
 
-  private connectAsClient(hostId: string) {
+  private connectAsClient() {
       // Create a peer with a random ID
+      this.peer?.destroy();
       const peer = new Peer();
+      this.peer = peer;
       peer.on('open', (id) => {
-          this.peer = peer;
-          this.myPeerId = id;
+          this.setPeerId(id);
           this.isHost = false;
+          this.meshConns = [];
+          this.pendingMesh.clear();
           
           // Connect to the known Host ID
-          const conn = peer.connect(hostId, { reliable: true });
+          const conn = peer.connect(this.hostId, { reliable: true });
           this.hostConn = conn;
+
+          // A host ID the signalling server still holds for a dead Host never opens
+          const openTimeout = setTimeout(() => {
+              if (!conn.open && this.hostConn === conn) this.scheduleFailover();
+          }, CONNECT_TIMEOUT_MS);
           
           conn.on('open', () => {
-              this.isConnected = true;
-              this.triggerLocal('status', { status: 'client', label: 'Secure Relay Active' });
-              this.flushQueue();
+              clearTimeout(openTimeout);
+              this.failoverAttempt = 0;
+              // The Host challenges us first; our key goes out once it lets us in
+              this.triggerLocal('status', { status: 'connecting', label: 'Awaiting Challenge...' });
               console.log('[P2P] Connected to Host');
           });
           
           // Handle connection drop
           conn.on('close', () => {
+             clearTimeout(openTimeout);
+             if (this.hostConn !== conn || this.isClosed) return;
              this.isConnected = false;
-             this.triggerLocal('status', { status: 'disconnected', label: 'Host Lost' });
+             this.triggerLocal('status', { status: 'connecting', label: 'Host Lost, Re-electing...' });
+             this.scheduleFailover();
           });
 
           this.setupConnection(conn);
       });
+
+      // Mesh peers dial us directly once they learn our peer ID from the roster. Only peers the Host has
+      // admitted and named, in its roster or a join rekey, get a link; anyone else never passed its challenge.
+      peer.on('connection', (conn) => {
+          const userId = this.userAt(conn.peer);
+          if (this.topology !== 'mesh' || (userId && this.isBanned(userId))) {
+              conn.close();
+              return;
+          }
+          if (userId) {
+              this.addMeshConnection(conn);
+              return;
+          }
+          const queued: any[] = [];
+          this.pendingMesh.set(conn, queued);
+          conn.on('data', (data: any) => {
+              if (this.pendingMesh.get(conn) === queued && queued.length < PENDING_MESH_LIMIT) queued.push(data);
+          });
+          setTimeout(() => {
+              if (!this.pendingMesh.has(conn)) return;
+              console.log(`[P2P] Dropping mesh link from unknown peer ${conn.peer}`);
+              this.pendingMesh.delete(conn);
+              conn.close();
+          }, ADMISSION_TIMEOUT_MS);
+      });
       
-      peer.on('error', (err) => {
+      peer.on('error', (err: any) => {
           console.error('[P2P] Client Error', err);
+          if (err.type === 'peer-unavailable' && !this.isClosed) this.scheduleFailover();
       });
   }
 
-  private setupConnection(conn: DataConnection) {
-      conn.on('data', (data: any) => {
-          // 1. Process the message locally
-          if (data && data.event) {
-              this.triggerLocal(data.event, data.data);
-          }
+  private scheduleFailover() {
+      if (this.failoverTimer || this.isClosed) return;
+      this.hostConn = null;
+      this.isConnected = false;
+      this.publishTopology();
+      const backoff = Math.min(FAILOVER_BASE_DELAY_MS * 2 ** this.failoverAttempt, FAILOVER_MAX_DELAY_MS);
+      const delay = backoff + Math.random() * FAILOVER_BASE_DELAY_MS * 2;
+      this.failoverAttempt++;
+      console.log(`[P2P] Host unreachable, claiming host ID in ${Math.round(delay)}ms (attempt ${this.failoverAttempt})`);
+      this.failoverTimer = setTimeout(() => {
+          this.failoverTimer = null;
+          this.claimHost('failover');
+      }, delay);
+  }
 
-          // 2. If I am the Host, I must relay this message to all OTHER connected clients
-          // This implements a Star Topology where clients only talk to Host, and Host echos to everyone.
-          if (this.isHost) {
-              this.connections.forEach(c => {
-                  // Don't send back to the person who sent it
-                  if (c.peer !== conn.peer && c.open) {
-                      c.send(data);
-                  }
-              });
-          }
-      });
+  private setupConnection(conn: DataConnection) {
+      conn.on('data', (data: any) => this.onData(conn, data));
       
       conn.on('close', () => {
           this.connections = this.connections.filter(c => c !== conn);
+          this.meshConns = this.meshConns.filter(c => c !== conn);
+          const userId = this.connUsers[conn.peer];
+          if (this.isHost && userId) {
+              delete this.connUsers[conn.peer];
+              this.rotate({ reason: 'leave', userId, username: this.announcements[userId]?.username });
+          }
+          this.publishTopology();
       });
   }
 
-  private broadcast(payload: any) {
+  private onData(conn: DataConnection, data: any) {
+      // Banned members get nothing relayed, even before their connection finishes closing, on any link
+      const userId = this.userAt(conn.peer);
+      if (userId && this.isBanned(userId)) return;
+
+      // Until it passes the challenge a newcomer can only answer it
+      if (this.isHost && !this.connections.includes(conn)) {
+          if (data?.event === 'challenge_response' && this.accept(data)) this.receive(data, conn);
+          return;
+      }
+
+      // Seeing a payload twice means gossip already delivered it
+      if (!this.accept(data)) return;
+
+      // 1. Process the message locally
+      this.receive(data, conn);
+
+      // 2. Relay to every other link. In star mode only the Host has links to relay to, so clients
+      // only talk to the Host and the Host echoes to everyone; in mesh mode every peer gossips.
+      if (!HOST_ONLY_EVENTS.includes(data.event) && !ADMISSION_EVENTS.includes(data.event) && !PROBE_EVENTS.includes(data.event)) {
+          this.links().forEach(c => {
+              // Don't send back to the person who sent it
+              if (c.peer !== conn.peer && c.open) {
+                  c.send(data);
+              }
+          });
+      }
+  }
+
+  // Who is behind a link: the Host knows its own connections, members go by the Host's roster and rekeys
+  private userAt(peerId: string): string | undefined {
+      if (this.isHost) return this.connUsers[peerId];
+      return Object.values(this.announcements).find(a => a.peerId === peerId)?.userId;
+  }
+
+  private addMeshConnection(conn: DataConnection) {
+      this.meshConns.push(conn);
+      this.setupConnection(conn);
+      // Links that waited on the Host are already open
+      if (conn.open) this.publishTopology();
+      else conn.on('open', () => this.publishTopology());
+  }
+
+  // Open direct links to roster members we aren't connected to yet; the newcomer always dials
+  private dialMesh(announcements: KeyAnnouncement[]) {
+      if (this.topology !== 'mesh' || this.isHost || !this.peer) return;
+      announcements.forEach(a => {
+          if (!a.peerId || a.peerId === this.hostId || a.peerId === this.myPeerId) return;
+          if (this.meshConns.some(c => c.peer === a.peerId)) return;
+          this.addMeshConnection(this.peer!.connect(a.peerId, { reliable: true }));
+      });
+  }
+
+  private links(): DataConnection[] {
+      if (this.isHost) return this.connections;
+      if (this.topology !== 'mesh') return [];
+      return this.hostConn ? [this.hostConn, ...this.meshConns] : this.meshConns;
+  }
+
+  protected publishTopology() {
+      if (!this.identity) return;
+      const me = this.identity.user.id;
+      const hostUser = this.isHost
+          ? me
+          : Object.values(this.announcements).find(a => a.peerId === this.hostId)?.userId || null;
+      const direct = this.isHost
+          ? this.connections.filter(c => c.open).map(c => this.connUsers[c.peer])
+          : [
+              ...(this.hostConn?.open && hostUser ? [hostUser] : []),
+              ...this.meshConns.filter(c => c.open).map(c => Object.values(this.announcements).find(a => a.peerId === c.peer)?.userId)
+            ];
+      const snapshot: TopologySnapshot = {
+          mode: this.topology,
+          selfId: me,
+          hostId: hostUser,
+          members: Object.values(this.announcements).map(a => ({ userId: a.userId, username: a.username })),
+          directLinks: direct.filter((id): id is string => !!id),
+      };
+      this.triggerLocal('topology', snapshot);
+  }
+
+  protected async handle(data: any, conn: DataConnection) {
+      switch (data.event) {
+          case 'challenge':
+              if (conn === this.hostConn) await this.answerChallenge(conn, data.data);
+              break;
+          case 'challenge_response':
+              if (this.isHost) await this.checkResponse(conn, data.data);
+              break;
+          case 'admission_result':
+              if (conn === this.hostConn) await this.acceptResult(data.data);
+              break;
+          case 'room_credential':
+              if (conn === this.hostConn) await this.acceptCredential(data.data);
+              break;
+          case 'key_announce': {
+              // A newcomer speaks for its own link only; everyone else learns its key from the Host's rekey
+              if (!this.isHost || data.data?.peerId !== conn.peer) break;
+              if (this.isBanned(data.data.userId, data.data)) {
+                  console.log(`[P2P] Refusing banned member ${data.data.userId}`);
+                  this.triggerLocal('refused', data.data);
+                  conn.close();
+                  break;
+              }
+              await this.registerKey(data.data);
+              // A new member invalidates the current group key
+              this.connUsers[conn.peer] = data.data.userId;
+              const roster: KeyRoster = {
+                  topology: this.topology,
+                  announcements: Object.values(this.announcements).filter(a => a.userId !== data.data.userId),
+                  roles: this.roles?.log,
+                  invites: [...this.invites.values()],
+                  timer: this.timer || undefined,
+                  topic: this.topic || undefined,
+                  botConsents: [...this.botConsents.values()],
+              };
+              conn.send(this.wire('key_roster', roster));
+              this.rotate({ reason: 'join', userId: data.data.userId, username: data.data.username, announcement: data.data });
+              await this.welcome(conn, data.data.userId);
+              break;
+          }
+          case 'key_roster': {
+              if (conn !== this.hostConn) break;
+              const roster = data.data as KeyRoster;
+              this.topology = roster.topology;
+              for (const announcement of roster.announcements) {
+                  await this.registerKey(announcement);
+              }
+              (roster.roles || []).forEach(change => this.triggerLocal('role_change', change));
+              (roster.invites || []).forEach(grant => this.invites.set(grant.tokenHash, grant));
+              if (roster.timer) this.triggerLocal('timer', roster.timer);
+              if (roster.topic) this.triggerLocal('topic', roster.topic);
+              (roster.botConsents || []).forEach(consent => this.triggerLocal('bot_consent', consent));
+              this.dialMesh(roster.announcements);
+              break;
+          }
+          case 'rekey':
+              if (!this.isHost && conn === this.hostConn) this.applyRekey(data.data);
+              break;
+          default:
+              await super.handle(data, conn);
+      }
+  }
+
+  // A mesh link waiting on the Host is let in once the Host names the peer behind it, then replays what it held
+  protected async registerKey(announcement: KeyAnnouncement) {
+      await super.registerKey(announcement);
+      const waiting = [...this.pendingMesh].filter(([c]) => c.peer === announcement?.peerId);
+      if (waiting.length === 0 || this.isBanned(announcement.userId)) return;
+      waiting.forEach(([conn, queued]) => {
+          this.pendingMesh.delete(conn);
+          this.addMeshConnection(conn);
+          queued.forEach(data => this.onData(conn, data));
+      });
+  }
+
+  // Direct links to members the Host has dropped go with them
+  protected applyRekey(rekey: RekeyEvent) {
+      const departed = Object.values(this.announcements).filter(a => !rekey.members.includes(a.userId)).map(a => a.peerId);
+      super.applyRekey(rekey);
+      this.meshConns.filter(c => departed.includes(c.peer) && !this.userAt(c.peer)).forEach(c => c.close());
+  }
+
+  protected members() {
+      return [this.identity?.user.id, ...Object.values(this.connUsers)].filter((id): id is string => !!id);
+  }
+
+  protected sendTo(conn: DataConnection, payload: any) {
+      if (conn.open) conn.send(payload);
+  }
+
+  protected sourceId(conn: DataConnection) {
+      return conn.peer;
+  }
+
+  protected hostSource() {
+      return this.hostConn;
+  }
+
+  protected admit(conn: DataConnection) {
+      this.connections.push(conn);
+  }
+
+  protected refuse(conn: DataConnection) {
+      setTimeout(() => conn.close(), REFUSE_CLOSE_DELAY_MS);
+  }
+
+  protected onAdmitted() {
+      if (!this.identity || !this.hostConn) return;
+      // Publish our public key; the Host answers with the room's key roster
+      this.triggerLocal('status', { status: 'connecting', label: 'Exchanging Keys...' });
+      this.hostConn.send(this.wire('key_announce', this.announcements[this.identity.user.id]));
+  }
+
+  protected dropMember(userId: string) {
+      const peerId = Object.keys(this.connUsers).find(id => this.connUsers[id] === userId);
+      if (!peerId) return;
+      // Forgotten first so the close handler doesn't count it as an ordinary leave
+      delete this.connUsers[peerId];
+      this.connections.filter(c => c.peer === peerId).forEach(c => c.close());
+  }
+
+  protected connectedStatus(): ConnectionStatus {
+      return this.isHost
+          ? { status: 'host', label: 'Host Node Active' }
+          : { status: 'client', label: 'Secure Relay Active' };
+  }
+
+  protected broadcast(payload: any) {
       if (this.isHost) {
           // Host sends to everyone
           this.connections.forEach(conn => {
               if (conn.open) conn.send(payload);
           });
-      } else if (this.hostConn && this.hostConn.open) {
-          // Client sends to Host
-          this.hostConn.send(payload);
+      } else {
+          // Client sends to Host, plus every direct peer in mesh mode
+          [this.hostConn, ...this.meshConns].forEach(conn => {
+              if (conn && conn.open) conn.send(payload);
+          });
       }
   }
 
-  private triggerLocal(event: string, data: any) {
-    const eventHandlers = this.handlers[event];
-    if (eventHandlers) {
-      eventHandlers.forEach(handler => handler(data));
+  disconnect() {
+    super.disconnect();
+    if (this.failoverTimer) clearTimeout(this.failoverTimer);
+    this.peer?.destroy();
+    this.peer = null;
+    this.connections = [];
+    this.meshConns = [];
+    this.pendingMesh.forEach((_, c) => c.close());
+    this.pendingMesh.clear();
+    this.hostConn = null;
+  }
+}
+
+class NetworkManager {
+  private sessions: { [roomId: string]: RoomTransport } = {};
+  private handlers: { [event: string]: Handler[] } = {};
+  private identity: { user: User; keyPair: CryptoKeyPair } | null = null;
+  private options: JoinOptions = { transport: 'peerjs', topology: 'star', relayUrl: DEFAULT_RELAY_URL };
+
+  setIdentity(user: User, keyPair: CryptoKeyPair) {
+    this.identity = { user, keyPair };
+    Object.values(this.sessions).forEach(session => session.setIdentity(user, keyPair));
+  }
+
+  // A new display name keeps the same keys; peers hear of it from a signed rename and see it in announcements from the next join
+  rename(user: User) {
+    if (this.identity) this.setIdentity(user, this.identity.keyPair);
+  }
+
+  // Applies to rooms joined from now on; a PeerJS topology only matters for rooms this node ends up hosting
+  configure(options: JoinOptions) {
+    this.options = options;
+  }
+
+  on(event: string, handler: Handler) {
+    if (!this.handlers[event]) this.handlers[event] = [];
+    this.handlers[event].push(handler);
+  }
+
+  off(event: string, handler: Handler) {
+    if (!this.handlers[event]) return;
+    this.handlers[event] = this.handlers[event].filter(h => h !== handler);
+  }
+
+  // Joining is idempotent; an existing session keeps its connections
+  connect(roomId: string, admission: Admission = {}) {
+    if (this.sessions[roomId]) return;
+    const dispatch: Dispatch = (event, data) => this.trigger(event, data, roomId);
+    const session = this.options.transport === 'socketio'
+      ? new RelayNetwork(roomId, dispatch, this.options.relayUrl)
+      : new P2PNetwork(roomId, dispatch, this.options.topology);
+    if (this.identity) session.setIdentity(this.identity.user, this.identity.keyPair);
+    session.setAdmission(admission);
+    this.sessions[roomId] = session;
+    session.connect();
+  }
+
+  disconnect(roomId: string) {
+    this.sessions[roomId]?.disconnect();
+    delete this.sessions[roomId];
+  }
+
+  // Roles are verified by the caller; banned members are expelled wherever this node is the Host
+  setRoles(roomId: string, roles: RoomRoles) {
+    this.sessions[roomId]?.setRoles(roles);
+  }
+
+  setTimer(roomId: string, change: TimerChange) {
+    this.sessions[roomId]?.setTimer(change);
+  }
+
+  setTopic(roomId: string, change: TopicChange) {
+    this.sessions[roomId]?.setTopic(change);
+  }
+
+  setBotConsent(roomId: string, consent: BotConsent) {
+    this.sessions[roomId]?.setBotConsent(consent);
+  }
+
+  expel(roomId: string, userId: string) {
+    this.sessions[roomId]?.expel(userId);
+  }
+
+  issueInvite(roomId: string, grant: InviteGrant) {
+    this.sessions[roomId]?.issueInvite(grant);
+  }
+
+  emit(roomId: string, event: string, data: any) {
+    const session = this.sessions[roomId];
+    if (!session) {
+      console.warn(`[P2P] Not joined to ${roomId}, dropping ${event}`);
+      return;
     }
+    session.emit(event, data);
   }
 
-  private flushQueue() {
-      if (this.messageQueue.length === 0) return;
-      console.log(`[P2P] Flushing ${this.messageQueue.length} queued messages`);
-      while(this.messageQueue.length > 0) {
-          const payload = this.messageQueue.shift();
-          this.broadcast(payload);
-      }
+  // For the outbox and file transfers: rooms no longer joined are skipped and tried again once rejoined
+  post(roomId: string, event: string, data: any) {
+    this.sessions[roomId]?.post(event, data);
+  }
+
+  private trigger(event: string, data: any, roomId: string) {
+    const eventHandlers = this.handlers[event];
+    if (eventHandlers) {
+      eventHandlers.forEach(handler => handler(data, roomId));
+    }
   }
 }
 
-export const socket = new P2PNetwork();
+export const socket = new NetworkManager();
 ////////
\ No newline at end of file
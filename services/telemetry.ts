@@ -0,0 +1,59 @@
+import { RoomTelemetry } from '../types.ts';
+
+// Counters change with every payload; listeners hear about them at most this often
+const NOTIFY_INTERVAL_MS = 1000;
+
+type Rooms = { [roomId: string]: RoomTelemetry };
+type Listener = (rooms: Rooms) => void;
+
+const empty = (): RoomTelemetry => ({
+  bytesSent: 0, bytesReceived: 0, messagesSent: 0, messagesReceived: 0, rttMs: null, reconnects: 0, epoch: null,
+});
+
+let rooms: Rooms = {};
+const listeners = new Set<Listener>();
+let notifyTimer: ReturnType<typeof setTimeout> | null = null;
+
+const update = (roomId: string, change: (stats: RoomTelemetry) => Partial<RoomTelemetry>) => {
+  const current = rooms[roomId] || empty();
+  rooms = { ...rooms, [roomId]: { ...current, ...change(current) } };
+  if (notifyTimer) return;
+  notifyTimer = setTimeout(() => {
+    notifyTimer = null;
+    listeners.forEach(listener => listener(rooms));
+  }, NOTIFY_INTERVAL_MS);
+};
+
+// Per-room counters fed by the transport layer; nothing here is persisted
+export const Telemetry = {
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    listener(rooms);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  traffic(roomId: string, direction: 'sent' | 'received', bytes: number, isMessage: boolean) {
+    update(roomId, stats => direction === 'sent'
+      ? { bytesSent: stats.bytesSent + bytes, messagesSent: stats.messagesSent + (isMessage ? 1 : 0) }
+      : { bytesReceived: stats.bytesReceived + bytes, messagesReceived: stats.messagesReceived + (isMessage ? 1 : 0) });
+  },
+
+  latency(roomId: string, rttMs: number | null) {
+    update(roomId, () => ({ rttMs }));
+  },
+
+  reconnected(roomId: string) {
+    console.log(`[Telemetry] Reconnected to ${roomId}`);
+    update(roomId, stats => ({ reconnects: stats.reconnects + 1 }));
+  },
+
+  epoch(roomId: string, epoch: number) {
+    update(roomId, () => ({ epoch }));
+  },
+
+  get(roomId: string): RoomTelemetry {
+    return rooms[roomId] || empty();
+  },
+};
@@ -0,0 +1,499 @@
+import { CryptoService } from './cryptoService.ts';
+import { Telemetry } from './telemetry.ts';
+import { RoleStore } from './roleStore.ts';
+import {
+  User, KeyAnnouncement, EncryptedEnvelope, SenderKeyDistribution, RekeyEvent, ConnectionStatus, ReceiptPayload, RoomRoles, TimerChange, TopicChange, BotConsent,
+  Admission, InviteGrant, AdmissionChallenge, AdmissionResponse, AdmissionResult
+} from '../types.ts';
+
+// Payloads of these events only ever leave this node as 'secure' envelopes
+export const ENCRYPTED_EVENTS = ['message', 'reaction', 'edit', 'delete', 'receipt', 'file_request', 'file_chunk', 'role_change', 'timer', 'topic', 'rename', 'bot_consent', 'bot_activation', 'presence'];
+// Encrypted like the above, but kept by the session itself: the room's outstanding invites
+const SESSION_EVENTS = ['invite', 'invite_redeemed'];
+// Control events only the Host may originate; never relayed on behalf of a client
+export const HOST_ONLY_EVENTS = ['rekey', 'key_roster'];
+// Admission handshake messages pass between the Host and one newcomer only; so does the newcomer's key,
+// which the Host hands on in the join's rekey
+export const ADMISSION_EVENTS = ['challenge', 'challenge_response', 'admission_result', 'room_credential', 'key_announce'];
+// Latency probes between a client and its Host; never relayed onward
+export const PROBE_EVENTS = ['ping', 'pong'];
+const PROBE_INTERVAL_MS = 10000;
+// Previous epochs stay readable briefly so payloads in flight during a rekey still decrypt
+const RETAINED_EPOCHS = 2;
+// De-duplication window (payload IDs remembered per session)
+const SEEN_PAYLOAD_LIMIT = 2000;
+
+const payloadId = () => `p-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 8)}`;
+
+export type Dispatch = (event: string, data: any) => void;
+
+// What the NetworkManager needs from a room session, whatever carries its bytes
+export interface RoomTransport {
+  setIdentity(user: User, keyPair: CryptoKeyPair): void;
+  emit(event: string, data: any): void;
+  post(event: string, data: any): void;
+  setAdmission(admission: Admission): void;
+  issueInvite(grant: InviteGrant): void;
+  setRoles(roles: RoomRoles): void;
+  setTimer(change: TimerChange): void;
+  setTopic(change: TopicChange): void;
+  setBotConsent(consent: BotConsent): void;
+  expel(userId: string): void;
+  connect(): void;
+  disconnect(): void;
+}
+
+// The end-to-end encrypted group protocol shared by every transport: key announcements,
+// Host-driven rekeys and per-member sender keys. Subclasses only decide how payloads travel,
+// and what a Link to another node is: a PeerJS connection, or a socket ID on the relay.
+export abstract class GroupSession<Link> implements RoomTransport {
+  protected isClosed: boolean = false;
+  protected isHost: boolean = false;
+  protected isConnected: boolean = false;
+  protected myPeerId: string = '';
+  protected identity: { user: User; keyPair: CryptoKeyPair } | null = null;
+  protected peerKeys: { [userId: string]: CryptoKey } = {};
+  protected announcements: { [userId: string]: KeyAnnouncement } = {};
+  protected epoch: number = 0;
+  // Verified by the app layer; the Host only reads it to decide who may stay
+  protected roles: RoomRoles | null = null;
+  // Likewise verified by the app; handed to newcomers so they honour the room's timer from the start
+  protected timer: TimerChange | null = null;
+  protected topic: TopicChange | null = null;
+  protected botConsents: Map<string, BotConsent> = new Map();
+  // Invites anyone in the room has issued and nobody has redeemed yet, by token hash
+  protected invites: Map<string, InviteGrant> = new Map();
+  private admission: Admission = {};
+  private roomKey: Promise<CryptoKey> | null = null;
+  // Host side: nonces sent to newcomers, and which of them got in with an invite
+  private challenges: { [sourceId: string]: string } = {};
+  private invited: Set<string> = new Set();
+  // Client side: this session's half of the handshake
+  private handshake: { hostNonce: string; nonce: string } | null = null;
+  private messageQueue: any[] = [];
+  private seenPayloads: Set<string> = new Set();
+  private mySenderKey: { epoch: number; key: CryptoKey } | null = null;
+  private senderKeys: { [userId: string]: { [epoch: number]: CryptoKey } } = {};
+  // Encryption and decryption are async; chaining keeps payloads in order
+  private outbound: Promise<void> = Promise.resolve();
+  private inbound: Promise<void> = Promise.resolve();
+  private probeTimer: ReturnType<typeof setInterval> | null = null;
+  // Whether the session has been up before, so coming back counts as a reconnect
+  private connection: 'never' | 'up' | 'dropped' = 'never';
+
+  constructor(protected roomId: string, private dispatch: Dispatch) {}
+
+  abstract connect(): void;
+
+  // Sends an already-wired payload to every member this node can reach
+  protected abstract broadcast(payload: any): void;
+  // userIds the Host currently counts as members, including itself
+  protected abstract members(): string[];
+  protected abstract connectedStatus(): ConnectionStatus;
+  protected abstract publishTopology(): void;
+  // Host only: stop carrying traffic for a member; expel() rotates the key afterwards
+  protected abstract dropMember(userId: string): void;
+  // Admission: point-to-point sends, and what to do once a newcomer passes or fails the Host's challenge
+  protected abstract sendTo(source: Link, payload: any): void;
+  // Client only: where sendTo reaches the Host, if we know it
+  protected abstract hostSource(): Link | null;
+  protected abstract sourceId(source: Link): string;
+  protected abstract admit(source: Link): void;
+  protected abstract refuse(source: Link): void;
+  // Client only: the Host let us in; announce our key
+  protected abstract onAdmitted(): void;
+
+  setIdentity(user: User, keyPair: CryptoKeyPair) {
+    this.identity = { user, keyPair };
+    this.announcements[user.id] = {
+        userId: user.id, username: user.username, publicKey: user.publicKey, signingKey: user.signingKey, peerId: this.myPeerId || undefined
+    };
+  }
+
+  emit(event: string, data: any) {
+    const payload = { event, data };
+
+    // 1. Trigger locally immediately for optimistic UI
+    this.triggerLocal(event, data);
+
+    // 2. Send to network
+    if (this.isConnected) {
+        this.send(payload);
+    } else {
+        this.messageQueue.push(payload);
+    }
+  }
+
+  // Sends without the local echo, e.g. a retry of something the UI already shows.
+  // Dropped while offline; callers keep their own state and try again later.
+  post(event: string, data: any) {
+    if (this.isConnected) this.send({ event, data });
+  }
+
+  setAdmission(admission: Admission) {
+    this.admission = admission;
+    this.roomKey = admission.credential ? CryptoService.importRoomKey(admission.credential) : null;
+  }
+
+  issueInvite(grant: InviteGrant) {
+    this.invites.set(grant.tokenHash, grant);
+    const payload = { event: 'invite', data: grant };
+    if (this.isConnected) {
+        this.send(payload);
+    } else {
+        this.messageQueue.push(payload);
+    }
+  }
+
+  setRoles(roles: RoomRoles) {
+    this.roles = roles;
+    this.members().filter(userId => this.isBanned(userId)).forEach(userId => this.expel(userId));
+  }
+
+  setTimer(change: TimerChange) {
+    this.timer = change;
+  }
+
+  setTopic(change: TopicChange) {
+    this.topic = change;
+  }
+
+  setBotConsent(consent: BotConsent) {
+    this.botConsents.set(consent.userId, consent);
+  }
+
+  // Host only: remove a member and rotate so they can't read anything sent after
+  expel(userId: string) {
+    if (!this.isHost || !this.members().includes(userId)) return;
+    console.log(`[Session] Removing ${userId} from ${this.roomId}`);
+    this.dropMember(userId);
+    this.rotate({ reason: 'removed', userId, username: this.announcements[userId]?.username });
+  }
+
+  // Bans hold for the keys as well as the userId, so coming back under a new userId doesn't help
+  protected isBanned(userId: string, announcement: KeyAnnouncement | undefined = this.announcements[userId]) {
+    if (!this.roles) return false;
+    return this.roles.banned.includes(userId) || (!!announcement && RoleStore.isBanned(this.roles, announcement));
+  }
+
+  disconnect() {
+    this.isClosed = true;
+    this.isConnected = false;
+    if (this.probeTimer) clearInterval(this.probeTimer);
+  }
+
+  protected setPeerId(id: string) {
+      this.myPeerId = id;
+      if (this.identity) {
+          const me = this.identity.user.id;
+          this.announcements[me] = { ...this.announcements[me], peerId: id };
+      }
+  }
+
+  // Every payload carries an ID; returns false for payloads already delivered by another path
+  protected accept(data: any) {
+      if (!data || !data.event || !data.id || this.seenPayloads.has(data.id)) return false;
+      this.remember(data.id);
+      return true;
+  }
+
+  protected receive(data: any, source: Link) {
+      this.inbound = this.inbound
+          .then(() => this.handle(data, source))
+          .catch(err => console.error('[Session] Failed to process payload:', err));
+  }
+
+  // Transport-specific control events are handled by subclasses before falling through to here
+  protected async handle(data: any, source: Link) {
+      switch (data.event) {
+          case 'secure': {
+              const inner = await this.open(data.data);
+              Telemetry.traffic(this.roomId, 'received', JSON.stringify(data.data).length, inner?.event === 'message');
+              if (inner && inner.event === 'invite') this.invites.set(inner.data.tokenHash, inner.data);
+              if (inner && inner.event === 'invite_redeemed') this.invites.delete(inner.data.tokenHash);
+              if (inner && ENCRYPTED_EVENTS.includes(inner.event)) {
+                  this.triggerLocal(inner.event, inner.data);
+                  // The Host acknowledges every message it sees, including retries of ones it already has
+                  if (inner.event === 'message' && this.isHost) this.acknowledge(inner.data.id);
+              }
+              break;
+          }
+          case 'sender_key':
+              await this.acceptSenderKey(data.data);
+              break;
+          case 'ping':
+              if (this.isHost) this.sendTo(source, this.wire('pong', data.data));
+              break;
+          case 'pong':
+              if (!this.isHost && typeof data.data?.sentAt === 'number') Telemetry.latency(this.roomId, Date.now() - data.data.sentAt);
+              break;
+          default:
+              this.triggerLocal(data.event, data.data);
+      }
+  }
+
+  // Host: every newcomer proves the room credential, or redeems an invite, before it counts as a member
+  protected challenge(source: Link) {
+      const nonce = CryptoService.randomToken();
+      this.challenges[this.sourceId(source)] = nonce;
+      const challenge: AdmissionChallenge = { nonce, protected: !!this.roomKey };
+      this.sendTo(source, this.wire('challenge', challenge));
+  }
+
+  protected async checkResponse(source: Link, response: AdmissionResponse) {
+      const id = this.sourceId(source);
+      const nonce = this.challenges[id];
+      if (!nonce || !response?.nonce) return;
+      delete this.challenges[id];
+
+      let reason: string | null = null;
+      if (this.roomKey) {
+          const key = await this.roomKey;
+          if (response.mac) {
+              if (!await CryptoService.verifyHmac(key, response.mac, `client|${nonce}|${response.nonce}`)) reason = 'Wrong Room Password';
+          } else if (response.token) {
+              const tokenHash = await CryptoService.digest(new TextEncoder().encode(response.token));
+              const grant = this.invites.get(tokenHash);
+              if (!grant || grant.expiresAt < Date.now()) {
+                  reason = 'Invite Expired Or Used';
+              } else {
+                  // One use only: everyone forgets it, so a later Host won't take it either
+                  this.invites.delete(tokenHash);
+                  this.send({ event: 'invite_redeemed', data: { tokenHash } });
+                  this.invited.add(id);
+              }
+          } else {
+              reason = 'Password Required';
+          }
+      }
+
+      if (reason) {
+          console.log(`[Session] Refused ${id}: ${reason}`);
+          const result: AdmissionResult = { ok: false, reason };
+          this.sendTo(source, this.wire('admission_result', result));
+          this.refuse(source);
+          return;
+      }
+      const mac = this.roomKey ? await CryptoService.hmac(await this.roomKey, `host|${response.nonce}|${nonce}`) : undefined;
+      const result: AdmissionResult = { ok: true, mac };
+      this.sendTo(source, this.wire('admission_result', result));
+      this.admit(source);
+  }
+
+  // Host: members who came in on an invite get the credential, so they can come back without one
+  protected async welcome(source: Link, userId: string) {
+      const id = this.sourceId(source);
+      if (!this.invited.has(id)) return;
+      this.invited.delete(id);
+      const publicKey = this.peerKeys[userId];
+      if (!this.admission.credential || !publicKey) return;
+      const sealed = await CryptoService.encryptFor(publicKey, this.admission.credential);
+      this.sendTo(source, this.wire('room_credential', sealed));
+  }
+
+  // Client: answer the Host's challenge with whatever this session was given
+  protected async answerChallenge(source: Link, challenge: AdmissionChallenge) {
+      if (challenge.protected && !this.roomKey && !this.admission.inviteToken) return this.fail('Password Required');
+      // A Host that doesn't know the password we have is not the room we meant to join
+      if (!challenge.protected && this.roomKey) return this.fail('Room Has No Password');
+      const nonce = CryptoService.randomToken();
+      this.handshake = { hostNonce: challenge.nonce, nonce };
+      const response: AdmissionResponse = this.roomKey
+          ? { nonce, mac: await CryptoService.hmac(await this.roomKey, `client|${challenge.nonce}|${nonce}`) }
+          : { nonce, token: challenge.protected ? this.admission.inviteToken : undefined };
+      this.triggerLocal('status', { status: 'connecting', label: 'Authenticating...' });
+      this.sendTo(source, this.wire('challenge_response', response));
+  }
+
+  protected async acceptResult(result: AdmissionResult) {
+      const handshake = this.handshake;
+      this.handshake = null;
+      if (!handshake) return;
+      if (!result.ok) return this.fail(result.reason || 'Admission Refused');
+      if (this.roomKey) {
+          const valid = !!result.mac && await CryptoService.verifyHmac(await this.roomKey, result.mac, `host|${handshake.nonce}|${handshake.hostNonce}`);
+          if (!valid) return this.fail('Host Failed Authentication');
+      }
+      this.onAdmitted();
+  }
+
+  protected async acceptCredential(sealed: string) {
+      if (!this.identity) return;
+      try {
+          const credential = await CryptoService.decryptWith(this.identity.keyPair.privateKey, sealed);
+          this.setAdmission({ credential });
+          this.triggerLocal('credential', credential);
+      } catch (e) {
+          console.warn('[Session] Could not read the room credential:', e);
+      }
+  }
+
+  private fail(label: string) {
+      console.warn(`[Session] Admission to ${this.roomId} failed: ${label}`);
+      this.triggerLocal('status', { status: 'error', label });
+      this.disconnect();
+  }
+
+  // Only ever called with keys the Host vouches for: its roster, a join rekey, or (on the Host) the newcomer's own link
+  protected async registerKey(announcement: KeyAnnouncement) {
+      if (!announcement || announcement.userId === this.identity?.user.id) return;
+      this.peerKeys[announcement.userId] = await CryptoService.importPublicKey(announcement.publicKey);
+      this.announcements[announcement.userId] = announcement;
+      this.triggerLocal('peer_key', announcement);
+      this.publishTopology();
+  }
+
+  // Host only: advance the epoch and tell every member to rotate
+  protected rotate(change: Omit<RekeyEvent, 'epoch' | 'timestamp' | 'members'>) {
+      const rekey: RekeyEvent = { ...change, epoch: this.epoch + 1, members: this.members(), timestamp: Date.now() };
+      this.broadcast(this.wire('rekey', rekey));
+      this.applyRekey(rekey);
+  }
+
+  protected applyRekey(rekey: RekeyEvent) {
+      // A client (re)joining adopts whatever epoch its Host is on
+      if (this.isConnected && rekey.epoch <= this.epoch) return;
+      const { announcement } = rekey;
+      const joined = !this.isHost && announcement && rekey.members.includes(announcement.userId) && !this.isBanned(announcement.userId, announcement)
+          ? this.registerKey(announcement)
+          : Promise.resolve();
+      this.epoch = rekey.epoch;
+      Telemetry.epoch(this.roomId, rekey.epoch);
+
+      // The Host's member list is authoritative: forget anyone no longer in it
+      Object.keys(this.announcements).forEach(userId => {
+          if (userId === this.identity?.user.id || rekey.members.includes(userId)) return;
+          delete this.peerKeys[userId];
+          delete this.announcements[userId];
+          delete this.senderKeys[userId];
+          this.triggerLocal('peer_left', userId);
+      });
+      this.publishTopology();
+
+      // Queued on the outbound chain so nothing is sealed with the old key after this point
+      this.outbound = this.outbound.then(async () => {
+          await joined;
+          if (!this.identity) return;
+          const senderKey = await CryptoService.generateSenderKey();
+          const distribution: SenderKeyDistribution = { senderId: this.identity.user.id, epoch: rekey.epoch, keys: {} };
+          for (const [userId, publicKey] of Object.entries(this.peerKeys)) {
+              distribution.keys[userId] = await CryptoService.wrapSenderKey(senderKey, publicKey);
+          }
+          this.mySenderKey = { epoch: rekey.epoch, key: senderKey };
+          this.broadcast(this.wire('sender_key', distribution));
+          console.log(`[Session] Rotated sender key for epoch ${rekey.epoch} (${rekey.reason})`);
+      }).catch(err => console.error('[Session] Failed to rotate sender key:', err));
+
+      this.triggerLocal('rekey', rekey);
+
+      // A client's first rekey completes the handshake; a re-elected Host waits for its first member
+      if (!this.isConnected && (!this.isHost || rekey.members.length > 1)) {
+          this.isConnected = true;
+          this.triggerLocal('status', this.connectedStatus());
+          this.flushQueue();
+      }
+  }
+
+  private async acceptSenderKey(distribution: SenderKeyDistribution) {
+      const wrapped = this.identity && distribution.keys[this.identity.user.id];
+      if (!wrapped) return;
+      const key = await CryptoService.unwrapSenderKey(wrapped, this.identity!.keyPair.privateKey);
+      const keys = { ...(this.senderKeys[distribution.senderId] || {}), [distribution.epoch]: key };
+      Object.keys(keys).map(Number).filter(e => e <= distribution.epoch - RETAINED_EPOCHS).forEach(e => delete keys[e]);
+      this.senderKeys[distribution.senderId] = keys;
+  }
+
+  private send(payload: any) {
+      this.outbound = this.outbound.then(async () => {
+          const sealed = ENCRYPTED_EVENTS.includes(payload.event) || SESSION_EVENTS.includes(payload.event) ? await this.seal(payload) : payload;
+          if (!sealed) return;
+          if (sealed.event === 'secure') Telemetry.traffic(this.roomId, 'sent', JSON.stringify(sealed.data).length, payload.event === 'message');
+          this.broadcast(this.wire(sealed.event, sealed.data));
+          if (payload.event === 'message') {
+              this.triggerLocal('sent', payload.data.id);
+              // Nobody acknowledges the Host's own messages; having them is being delivered
+              if (this.isHost) this.triggerLocal('receipt', this.receipt(payload.data.id));
+          }
+      }).catch(err => console.error('[Session] Failed to encrypt payload:', err));
+  }
+
+  private acknowledge(messageId: string) {
+      this.send({ event: 'receipt', data: this.receipt(messageId) });
+  }
+
+  private receipt(messageId: string): ReceiptPayload {
+      return { roomId: this.roomId, messageIds: [messageId], userId: this.identity?.user.id || '', kind: 'delivered' };
+  }
+
+  private async seal(payload: any) {
+      if (!this.identity || !this.mySenderKey) return null;
+      const { epoch, key } = this.mySenderKey;
+      const envelope = await CryptoService.encrypt(this.identity.user.id, epoch, key, JSON.stringify(payload));
+      return { event: 'secure', data: envelope };
+  }
+
+  private async open(envelope: EncryptedEnvelope) {
+      const senderKey = this.senderKeys[envelope.senderId]?.[envelope.epoch];
+      if (!senderKey) {
+          console.warn(`[Session] No sender key for ${envelope.senderId} at epoch ${envelope.epoch}`);
+          return null;
+      }
+      const plaintext = await CryptoService.decrypt(envelope, senderKey);
+      return plaintext ? JSON.parse(plaintext) : null;
+  }
+
+  private remember(id: string) {
+      this.seenPayloads.add(id);
+      if (this.seenPayloads.size > SEEN_PAYLOAD_LIMIT) {
+          this.seenPayloads.delete(this.seenPayloads.values().next().value!);
+      }
+  }
+
+  protected wire(event: string, data: any) {
+      const id = payloadId();
+      this.remember(id);
+      return { event, data, id };
+  }
+
+  protected triggerLocal(event: string, data: any) {
+    if (this.isClosed) return;
+    if (event === 'status') this.trackConnection(data);
+    this.dispatch(event, data);
+  }
+
+  // Every transport reports coming up with its connectedStatus(), and anything else while it's down
+  private trackConnection(status: ConnectionStatus) {
+      const up = status.status === 'host' || status.status === 'client';
+      if (up && this.connection === 'dropped') Telemetry.reconnected(this.roomId);
+      if (up) {
+          this.connection = 'up';
+          this.startProbes();
+      } else if (this.connection === 'up') {
+          this.connection = 'dropped';
+      }
+  }
+
+  private startProbes() {
+      if (this.probeTimer) return;
+      const probe = () => {
+          if (!this.isConnected) return;
+          if (this.isHost) {
+              Telemetry.latency(this.roomId, null);
+              return;
+          }
+          const host = this.hostSource();
+          if (host) this.sendTo(host, this.wire('ping', { sentAt: Date.now() }));
+      };
+      probe();
+      this.probeTimer = setInterval(probe, PROBE_INTERVAL_MS);
+  }
+
+  protected flushQueue() {
+      if (this.messageQueue.length === 0) return;
+      console.log(`[Session] Flushing ${this.messageQueue.length} queued messages`);
+      while(this.messageQueue.length > 0) {
+          const payload = this.messageQueue.shift();
+          this.send(payload);
+      }
+  }
+}
@@ -0,0 +1,127 @@
+import { KeyAnnouncement, TrustRecord, KeyChangeWarning } from '../types.ts';
+
+const TRUST_STORAGE_KEY = 'ciphertalk_v2_trust';
+
+const load = (): { [userId: string]: TrustRecord } => {
+  try {
+    return JSON.parse(localStorage.getItem(TRUST_STORAGE_KEY) || '{}');
+  } catch (e) {
+    console.warn("Failed to load trust store:", e);
+    return {};
+  }
+};
+
+const save = (records: { [userId: string]: TrustRecord }) => {
+  localStorage.setItem(TRUST_STORAGE_KEY, JSON.stringify(records));
+};
+
+const warningFor = (record: TrustRecord): KeyChangeWarning | null => record.pending ? {
+  userId: record.userId,
+  username: record.pending.username,
+  previousKey: record.publicKey,
+  publicKey: record.pending.publicKey,
+  wasVerified: record.verified,
+} : null;
+
+const pin = (record: TrustRecord, key: { username: string; publicKey: string; signingKey?: string }, verified: boolean): TrustRecord => ({
+  userId: record.userId,
+  username: key.username,
+  publicKey: key.publicKey,
+  signingKey: key.signingKey,
+  verified,
+  verifiedAt: verified ? Date.now() : undefined,
+  firstSeen: Date.now(),
+});
+
+// Trust-on-first-use: the first key seen for a user stays pinned until the user accepts or verifies a new one
+export const TrustStore = {
+  all: load,
+
+  // Every key on record for a user, pinned or pending
+  keysOf(record: TrustRecord | undefined): string[] {
+    if (!record) return [];
+    const keys = [record.publicKey, record.signingKey, record.pending?.publicKey, record.pending?.signingKey];
+    return [...new Set(keys.filter((k): k is string => !!k))];
+  },
+
+  // Verified only while the peer still presents exactly the keys that were verified
+  isVerified(record: TrustRecord | undefined, peer: Pick<KeyAnnouncement, 'publicKey' | 'signingKey'>): boolean {
+    return !!record?.verified && record.publicKey === peer.publicKey && record.signingKey === peer.signingKey;
+  },
+
+  // Changes still waiting on the user, so the warning survives a reload
+  warnings(): KeyChangeWarning[] {
+    return Object.values(load()).map(warningFor).filter((w): w is KeyChangeWarning => !!w);
+  },
+
+  // Pins unknown keys; a known user presenting a different one is held as pending and reported
+  observe(announcement: KeyAnnouncement): KeyChangeWarning | null {
+    const records = load();
+    const known = records[announcement.userId];
+    if (!known) {
+      records[announcement.userId] = {
+        userId: announcement.userId,
+        username: announcement.username,
+        publicKey: announcement.publicKey,
+        signingKey: announcement.signingKey,
+        verified: false,
+        firstSeen: Date.now(),
+      };
+      save(records);
+      return null;
+    }
+
+    if (known.publicKey === announcement.publicKey) {
+      const { pending, ...pinned } = known;
+      // Back on the pinned keys, so a pending change is stale
+      if (!announcement.signingKey || known.signingKey === announcement.signingKey) {
+        if (pending) {
+          records[announcement.userId] = pinned;
+          save(records);
+        }
+        return null;
+      }
+      // Signing keys arrived later than identity keys; pin one the first time it shows up
+      if (!known.signingKey) {
+        records[announcement.userId] = { ...pinned, signingKey: announcement.signingKey };
+        save(records);
+        return null;
+      }
+    }
+
+    const { pending } = known;
+    if (pending && pending.publicKey === announcement.publicKey && pending.signingKey === announcement.signingKey) return warningFor(known);
+    records[announcement.userId] = {
+      ...known,
+      pending: { username: announcement.username, publicKey: announcement.publicKey, signingKey: announcement.signingKey, seenAt: Date.now() },
+    };
+    save(records);
+    return warningFor(records[announcement.userId]);
+  },
+
+  // Trusts the pending key in place of the pinned one, unverified
+  accept(userId: string) {
+    const records = load();
+    const record = records[userId];
+    if (!record?.pending) return records;
+    records[userId] = pin(record, record.pending, false);
+    save(records);
+    return records;
+  },
+
+  // Verifying the pending key accepts it; verifying the pinned one discards the change
+  setVerified(userId: string, verified: boolean, key?: Pick<KeyAnnouncement, 'publicKey' | 'signingKey'>) {
+    const records = load();
+    const record = records[userId];
+    if (!record) return records;
+    const { pending } = record;
+    if (verified && pending && key && pending.publicKey === key.publicKey && pending.signingKey === key.signingKey) {
+      records[userId] = pin(record, pending, true);
+    } else {
+      const { pending: _, ...rest } = record;
+      records[userId] = { ...(verified ? rest : record), verified, verifiedAt: verified ? Date.now() : undefined };
+    }
+    save(records);
+    return records;
+  },
+};
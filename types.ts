@@ -3,6 +3,7 @@ export interface User {
   username: string;
   avatar: string;
   publicKey: string;
+  signingKey?: string; // Base64 SPKI ECDSA P-256; signs control events
 }
 
 export interface Attachment {
@@ -10,8 +11,35 @@ export interface Attachment {
   name: string;
   type: 'image' | 'video' | 'file';
   mimeType: string;
-  data: string; // Base64 Data URI
+  data?: string; // Base64 Data URI; only inline attachments from before chunked transfer
   size: number;
+  hash?: string; // Base64 SHA-256 of the whole file
+  chunkSize?: number;
+  chunkCount?: number;
+}
+
+export interface FileRequest {
+  roomId: string;
+  fileId: string;
+  indexes: number[];
+  attempt: number; // After the first, anyone holding the file may answer, not just the uploader
+}
+
+export interface FileChunk {
+  roomId: string;
+  fileId: string;
+  index: number;
+  data: string; // Base64
+  hash: string; // Base64 SHA-256 of the chunk
+}
+
+export interface TransferState {
+  fileId: string;
+  roomId: string;
+  status: 'uploading' | 'downloading' | 'complete' | 'failed';
+  done: number; // Chunks sent (uploading) or received (downloading)
+  total: number;
+  url?: string; // Object URL once the bytes are available locally
 }
 
 export interface Message {
@@ -25,26 +53,359 @@ export interface Message {
   reactions?: { [emoji: string]: string[] }; // emoji -> array of userIds
   attachment?: Attachment;
   isDeleted?: boolean; // New flag for soft deletion
+  replyTo?: string; // ID of the message this answers
+  threadRoot?: string; // ID of the message that started the thread; replies to replies share it
+  delivery?: DeliveryState; // Own messages only; never sent over the wire
+  revision?: number; // 0 or absent until the sender first edits it
+  editedAt?: number;
+  history?: MessageRevision[]; // Earlier versions, oldest first
+  expiresAt?: number; // Set while the room has a disappearing-message timer
+  linkPreview?: LinkPreview;
+  emote?: boolean; // Sent with /me; shown as an action after the sender's name
+  botReply?: BotReplyState; // A bot answer still being written here; never sent or stored
+}
+
+export interface BotReplyState {
+  status: 'streaming' | 'error' | 'cancelled';
+  error?: string;
+}
+
+// Built by the sender's own client; receivers render it as-is and never contact the site
+export interface LinkPreview {
+  url: string;
+  title: string;
+  description?: string;
+  siteName?: string;
+  image?: string; // data: URI of a small thumbnail
+}
+
+export interface MessageRevision {
+  content: string;
+  revision: number;
+  timestamp: number;
+}
+
+export type DeliveryStatus = 'pending' | 'sent' | 'delivered';
+
+export interface DeliveryState {
+  status: DeliveryStatus; // pending: queued locally, sent: handed to the network, delivered: the Host has it
+  readBy: string[]; // userIds
+}
+
+export interface ReceiptPayload {
+  roomId: string;
+  messageIds: string[];
+  userId: string;
+  kind: 'delivered' | 'read';
+}
+
+export type PresenceState = 'online' | 'away' | 'offline';
+
+// Heartbeat each member sends every few seconds; going offline is noticed, never announced
+export interface PresencePayload {
+  roomId: string;
+  userId: string;
+  username: string;
+  state: Exclude<PresenceState, 'offline'>;
+  timestamp: number;
+}
+
+export interface PresenceRecord {
+  userId: string;
+  username: string;
+  state: PresenceState;
+  lastSeen: number; // Our clock, when the last heartbeat arrived
+  sentAt?: number; // The sender's clock on that heartbeat; only compared with their own later ones
 }
 
 export interface ReactionPayload {
+  roomId: string;
   messageId: string;
   emoji: string;
   userId: string;
+  signature?: string;
 }
 
 export interface DeletePayload {
+  roomId: string;
   messageIds: string[];
+  senderId: string;
+  signature?: string;
+}
+
+export interface EditPayload {
+  roomId: string;
+  messageId: string;
+  senderId: string;
+  content: string;
+  revision: number; // Highest revision wins; ties go to the later timestamp
+  timestamp: number;
+  signature?: string;
+}
+
+export interface TypingPayload {
+  roomId: string;
+  username: string;
+  isTyping: boolean;
+}
+
+export interface KeyAnnouncement {
+  userId: string;
+  username: string;
+  publicKey: string; // Base64 SPKI
+  signingKey?: string;
+  peerId?: string; // Network address, used by mesh peers to dial each other
+}
+
+export type Topology = 'star' | 'mesh';
+
+export type TransportKind = 'peerjs' | 'socketio';
+
+export interface JoinOptions {
+  transport: TransportKind;
+  topology: Topology; // PeerJS only
+  relayUrl: string; // Socket.IO only
+}
+
+export type RoomRole = 'owner' | 'moderator' | 'member';
+export type RoleAction = 'claim' | 'promote' | 'demote' | 'kick' | 'ban' | 'unban';
+
+export interface RoleChange {
+  roomId: string;
+  action: RoleAction;
+  actorId: string;
+  targetId: string;
+  targetName: string;
+  // Signing key of a new owner or moderator, so later changes verify even while they're offline
+  targetKey?: string;
+  targetKeys?: string[]; // Keys the actor has on record for a banned user; peers check them, then ban the keys they know
+  timestamp: number;
+  signature?: string;
+}
+
+export interface RoomRoles {
+  ownerId: string | null;
+  moderators: string[];
+  banned: string[];
+  bannedKeys: { [userId: string]: string[] }; // A ban holds for these keys whatever userId presents them
+  keys: { [userId: string]: string }; // Signing keys of the owner and moderators
+  log: RoleChange[]; // Every change that shaped this state, replayed to newcomers; kicks are transient
+}
+
+export interface KeyRoster {
+  topology: Topology;
+  announcements: KeyAnnouncement[];
+  roles?: RoleChange[];
+  invites?: InviteGrant[];
+  timer?: TimerChange;
+  topic?: TopicChange;
+  botConsents?: BotConsent[];
+}
+
+// A room's disappearing-message timer; the latest signed change wins on every peer
+export interface TimerChange {
+  roomId: string;
+  ttl: number; // ms; 0 turns the timer off
+  userId: string;
+  username: string;
+  timestamp: number;
+  signature?: string;
+}
+
+// A room's topic, settled the same way as its timer
+export interface TopicChange {
+  roomId: string;
+  topic: string; // Empty clears it
+  userId: string;
+  username: string;
+  timestamp: number;
+  signature?: string;
+}
+
+// A member's new display name, signed so nobody can rename anyone else
+export interface RenameChange {
+  roomId: string;
+  userId: string;
+  previous: string; // Trusted for our own renames only; peers show the name they already knew
+  username: string;
+  timestamp: number;
+  signature?: string;
+}
+
+// One member's say on whether their messages may be sent to external bots in a room
+export interface BotConsent {
+  roomId: string;
+  userId: string;
+  username: string;
+  granted: boolean;
+  timestamp: number;
+  signature?: string;
+}
+
+// Told to the room whenever a member turns bots on or off, so nobody is surprised by one reading along
+export interface BotActivation {
+  roomId: string;
+  userId: string;
+  username: string;
+  enabled: boolean;
+  external: string[]; // Names of the bots that send messages off this device
+  timestamp: number;
+  signature?: string;
+}
+
+// Where the current room stands on external bots, for display
+export interface BotConsentSummary {
+  mine: boolean;
+  allowed: number; // Connected members, us included, who said yes
+  total: number;
+  waitingOn: string[]; // Names of those who haven't
+}
+
+// What the room's session has measured since this tab joined it
+export interface RoomTelemetry {
+  bytesSent: number; // Encrypted envelopes only, as they go on the wire
+  bytesReceived: number;
+  messagesSent: number;
+  messagesReceived: number;
+  rttMs: number | null; // To the Host; null while we are the Host or before the first probe returns
+  reconnects: number;
+  epoch: number | null;
+}
+
+export interface SessionStats extends RoomTelemetry {
+  peersVerified: number;
+  peersTotal: number;
+}
+
+// What the Auth form collects for a room besides its name
+export interface JoinAccess {
+  password?: string;
+  inviteToken?: string;
+}
+
+// What a session proves to the Host: a room credential (derived from the password) or a one-time invite
+export interface Admission {
+  credential?: string; // Base64 HMAC-SHA-256 key
+  inviteToken?: string;
+}
+
+// Carried in invite links; the token is only ever shared with the room as a hash
+export interface Invite {
+  roomId: string;
+  token: string;
+}
+
+export interface InviteGrant {
+  tokenHash: string;
+  expiresAt: number;
+  issuedBy: string;
+}
+
+// Host -> newcomer, before it counts as a member
+export interface AdmissionChallenge {
+  nonce: string;
+  protected: boolean;
+}
+
+export interface AdmissionResponse {
+  nonce: string;
+  mac?: string; // Proves the credential
+  token?: string; // Or redeems an invite
+}
+
+export interface AdmissionResult {
+  ok: boolean;
+  mac?: string; // The Host proving the credential back, for password-protected rooms
+  reason?: string;
+}
+
+export interface TopologySnapshot {
+  mode: Topology | 'relay';
+  selfId: string;
+  hostId: string | null; // userId of the room's Host
+  members: { userId: string; username: string }[];
+  directLinks: string[]; // userIds (or the relay server) this node has an open connection to
+}
+
+export interface TrustRecord {
+  userId: string;
+  username: string;
+  publicKey: string;
+  signingKey?: string;
+  verified: boolean;
+  verifiedAt?: number;
+  firstSeen: number;
+  pending?: PendingKey; // A different key the user has since presented; unused until accepted or verified
+}
+
+export interface PendingKey {
+  username: string;
+  publicKey: string;
+  signingKey?: string;
+  seenAt: number;
+}
+
+export interface KeyChangeWarning {
+  userId: string;
+  username: string;
+  previousKey: string;
+  publicKey: string;
+  wasVerified: boolean;
+}
+
+export type AuditCategory = 'forged_event' | 'unauthorized_event' | 'refused_member' | 'bot_disclosure';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: number;
+  roomId: string;
+  category: AuditCategory;
+  summary: string;
+  data?: any; // The offending payload, as received; for disclosures, exactly what was sent
+}
+
+export interface EncryptedEnvelope {
+  senderId: string;
+  epoch: number;
+  iv: string;
+  ciphertext: string;
+}
+
+export interface SenderKeyDistribution {
+  senderId: string;
+  epoch: number;
+  keys: { [userId: string]: string }; // recipient userId -> wrapped sender key
+}
+
+export interface RekeyEvent {
+  epoch: number;
+  reason: 'created' | 'join' | 'leave' | 'failover' | 'removed';
+  userId?: string;
+  username?: string;
+  members: string[]; // userIds holding the new epoch's keys
+  announcement?: KeyAnnouncement; // The newcomer's keys on a join; members only ever take keys from the Host
+  timestamp: number;
+}
+
+export interface ConnectionStatus {
+  status: 'disconnected' | 'connecting' | 'host' | 'client' | 'error';
+  label: string;
+}
+
+export interface RoomSummary {
+  roomId: string;
+  unread: number;
+  lastMessage?: Message;
+  status?: ConnectionStatus;
 }
 
 export interface ChatState {
   user: User | null;
   activeRoom: string;
-  messages: Message[];
-  typingUsers: string[]; // List of usernames currently typing
+  rooms: string[]; // Every room with a live network session
+  messages: Message[]; // Loaded messages across all joined rooms
+  typingUsers: { [roomId: string]: string[] }; // Usernames currently typing, per room
+  unreadCounts: { [roomId: string]: number };
   isAuthenticated: boolean;
-  connectionStatus: {
-    status: 'disconnected' | 'connecting' | 'host' | 'client' | 'error';
-    label: string;
-  };
+  connectionStatus: { [roomId: string]: ConnectionStatus };
 }
\ No newline at end of file
@@ -23,4 +23,19 @@ export const getTypingString = (users: string[]) => {
   if (users.length === 1) return `${users[0]} is typing...`;
   if (users.length === 2) return `${users[0]} and ${users[1]} are typing...`;
   return 'Several users are typing...';
-};
\ No newline at end of file
+};
+
+// Coarse durations for countdowns and last-seen times: "42s", "13m", "5h", "1d"
+export const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.ceil(seconds / 3600)}h`;
+  return `${Math.ceil(seconds / 86400)}d`;
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,51 @@
+export type TokenKind = 'keyword' | 'string' | 'comment' | 'number' | 'plain';
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+}
+
+// Not a parser: a keyword list broad enough for what people paste (JS/TS, Python, Go, Rust, Java, C, shell, SQL)
+const KEYWORDS = new Set([
+  'abstract', 'and', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'def', 'default',
+  'del', 'do', 'done', 'elif', 'else', 'enum', 'esac', 'export', 'extends', 'false', 'fi', 'final', 'finally', 'fn',
+  'for', 'from', 'func', 'function', 'go', 'if', 'impl', 'implements', 'import', 'in', 'interface', 'is', 'lambda',
+  'let', 'match', 'mod', 'mut', 'new', 'nil', 'none', 'None', 'not', 'null', 'or', 'package', 'pass', 'private',
+  'protected', 'pub', 'public', 'raise', 'return', 'self', 'static', 'struct', 'super', 'switch', 'then', 'this',
+  'throw', 'throws', 'trait', 'true', 'True', 'False', 'try', 'type', 'typeof', 'undefined', 'use', 'var', 'void',
+  'while', 'with', 'yield', 'select', 'where', 'insert', 'update', 'delete', 'join', 'SELECT', 'FROM', 'WHERE',
+  'INSERT', 'UPDATE', 'DELETE', 'JOIN', 'ORDER', 'GROUP', 'BY',
+]);
+
+// Languages where `#` starts a comment rather than, say, a preprocessor line, and where `--` does
+const HASH_COMMENTS = new Set(['py', 'python', 'sh', 'bash', 'shell', 'zsh', 'rb', 'ruby', 'yaml', 'yml', 'toml', 'r', 'perl', 'dockerfile', 'makefile']);
+const DASH_COMMENTS = new Set(['sql', 'lua', 'hs', 'haskell']);
+
+const comments = (language: string) =>
+  HASH_COMMENTS.has(language) ? '#[^\\n]*' : DASH_COMMENTS.has(language) ? '--[^\\n]*' : '\\/\\/[^\\n]*|\\/\\*[\\s\\S]*?\\*\\/';
+
+const pattern = (language: string) => new RegExp([
+  `(${comments(language)})`,
+  '("(?:\\\\.|[^"\\\\\\n])*"|\'(?:\\\\.|[^\'\\\\\\n])*\'|`(?:\\\\.|[^`\\\\])*`)',
+  '(\\b\\d+(?:\\.\\d+)?\\b)',
+  '([A-Za-z_$][\\w$]*)',
+].join('|'), 'g');
+
+export const highlight = (code: string, language: string): Token[] => {
+  const tokens: Token[] = [];
+  let last = 0;
+  const push = (kind: TokenKind, text: string) => {
+    const prev = tokens[tokens.length - 1];
+    if (prev && prev.kind === kind) prev.text += text; else tokens.push({ kind, text });
+  };
+  for (const match of code.matchAll(pattern(language))) {
+    if (match.index! > last) push('plain', code.slice(last, match.index));
+    if (match[1]) push('comment', match[1]);
+    else if (match[2]) push('string', match[2]);
+    else if (match[3]) push('number', match[3]);
+    else push(KEYWORDS.has(match[4]) ? 'keyword' : 'plain', match[4]);
+    last = match.index! + match[0].length;
+  }
+  if (last < code.length) push('plain', code.slice(last));
+  return tokens;
+};
@@ -0,0 +1,143 @@
+// A deliberately small Markdown dialect for chat. It parses to a tree that components render
+// as React elements, so message text can never become markup.
+
+export type Inline =
+  | { kind: 'text'; text: string }
+  | { kind: 'code'; text: string }
+  | { kind: 'strong'; children: Inline[] }
+  | { kind: 'em'; children: Inline[] }
+  | { kind: 'link'; href: string }
+  | { kind: 'break' };
+
+export type Block =
+  | { kind: 'paragraph'; children: Inline[] }
+  | { kind: 'code'; language: string; text: string }
+  | { kind: 'quote'; children: Block[] }
+  | { kind: 'list'; ordered: boolean; start: number; items: Inline[][] };
+
+// Quotes of quotes of quotes... stop nesting here and read as plain text
+const MAX_DEPTH = 4;
+
+const FENCE = /^\s*```\s*([\w#+.-]*)\s*$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+
+// Code spans, bold, italics and bare URLs. Underscores only count at word edges, so snake_case stays as written.
+// Only bare URLs are linked: the text shown is always the address the link goes to.
+const INLINE = /(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)|\*\*(?=\S)([\s\S]*?\S)\*\*|(?<![\p{L}\p{N}])__(?=\S)([\s\S]*?\S)__(?![\p{L}\p{N}])|\*(?=[^\s*])([\s\S]*?[^\s*])\*|(?<![\p{L}\p{N}])_(?=[^\s_])([\s\S]*?[^\s_])_(?![\p{L}\p{N}])|(https?:\/\/[^\s<>"]+)/gu;
+
+// Sentence punctuation after a URL belongs to the sentence; a closing paren only if it has no partner inside
+const trimUrl = (url: string) => {
+  let end = url.length;
+  while (end > 0) {
+    const ch = url[end - 1];
+    if ('.,;:!?\'"'.includes(ch)) end--;
+    else if (ch === ')' && (url.slice(0, end).match(/\(/g) || []).length < (url.slice(0, end).match(/\)/g) || []).length) end--;
+    else break;
+  }
+  return url.slice(0, end);
+};
+
+export const parseInline = (text: string, depth: number = 0): Inline[] => {
+  if (depth >= MAX_DEPTH) return [{ kind: 'text', text }];
+  const out: Inline[] = [];
+  const pushText = (value: string) => {
+    value.split('\n').forEach((line, i) => {
+      if (i > 0) out.push({ kind: 'break' });
+      if (line) out.push({ kind: 'text', text: line });
+    });
+  };
+
+  let last = 0;
+  for (const match of text.matchAll(INLINE)) {
+    const at = match.index!;
+    let consumed = match[0];
+    if (match[2] !== undefined) {
+      pushText(text.slice(last, at));
+      out.push({ kind: 'code', text: match[2] });
+    } else if (match[3] !== undefined || match[4] !== undefined) {
+      pushText(text.slice(last, at));
+      out.push({ kind: 'strong', children: parseInline(match[3] ?? match[4], depth + 1) });
+    } else if (match[5] !== undefined || match[6] !== undefined) {
+      pushText(text.slice(last, at));
+      out.push({ kind: 'em', children: parseInline(match[5] ?? match[6], depth + 1) });
+    } else {
+      const href = trimUrl(match[7]);
+      consumed = href;
+      pushText(text.slice(last, at));
+      out.push({ kind: 'link', href });
+    }
+    last = at + consumed.length;
+  }
+  pushText(text.slice(last));
+  return out;
+};
+
+export const parseMarkdown = (text: string, depth: number = 0): Block[] => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ kind: 'paragraph', children: parseInline(paragraph.join('\n')) });
+    paragraph = [];
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const fence = line.match(FENCE);
+    if (fence) {
+      flush();
+      const body: string[] = [];
+      i++;
+      // An unclosed fence runs to the end of the message, as it does while someone is still pasting
+      while (i < lines.length && !/^\s*```\s*$/.test(lines[i])) body.push(lines[i++]);
+      blocks.push({ kind: 'code', language: fence[1].toLowerCase(), text: body.join('\n') });
+      i++;
+      continue;
+    }
+
+    if (depth < MAX_DEPTH && QUOTE.test(line)) {
+      flush();
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) quoted.push(lines[i++].match(QUOTE)![1]);
+      blocks.push({ kind: 'quote', children: parseMarkdown(quoted.join('\n'), depth + 1) });
+      continue;
+    }
+
+    const bullet = BULLET.test(line);
+    const numbered = line.match(NUMBERED);
+    if (bullet || numbered) {
+      flush();
+      const pattern = bullet ? BULLET : NUMBERED;
+      const items: Inline[][] = [];
+      while (i < lines.length && pattern.test(lines[i])) {
+        const item = lines[i++].match(pattern)!;
+        items.push(parseInline(bullet ? item[1] : item[2]));
+      }
+      blocks.push({ kind: 'list', ordered: !bullet, start: numbered ? Number(numbered[1]) : 1, items });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flush();
+    } else {
+      paragraph.push(line);
+    }
+    i++;
+  }
+  flush();
+  return blocks;
+};
+
+// First link in the text, for offering a preview card
+export const firstUrl = (text: string): string | null => {
+  for (const block of parseMarkdown(text)) {
+    if (block.kind !== 'paragraph') continue;
+    const link = block.children.find(inline => inline.kind === 'link');
+    if (link && link.kind === 'link') return link.href;
+  }
+  return null;
+};
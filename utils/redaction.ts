@@ -0,0 +1,33 @@
+export interface Redacted {
+  text: string;
+  count: number;
+}
+
+// Order matters: specific key formats first, so the generic patterns don't swallow them under a vaguer label
+const PATTERNS: { label: string; pattern: RegExp }[] = [
+  { label: 'private key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(-----END [A-Z ]*PRIVATE KEY-----|$)/g },
+  { label: 'API key', pattern: /\b(sk|pk|rk)-[A-Za-z0-9_-]{16,}\b/g },
+  { label: 'API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { label: 'API key', pattern: /\b(AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { label: 'API key', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g },
+  { label: 'API key', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g },
+  { label: 'token', pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\b/g },
+  // `password: hunter2`, `api_key=...` and the like keep their name and lose their value
+  { label: 'secret', pattern: /\b((?:api[_-]?key|secret|token|password|passwd|pwd)\s*[:=]\s*)(["']?)[^\s"']+\2/gi },
+  { label: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  { label: 'IP address', pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g },
+  { label: 'IP address', pattern: /\b(?:[0-9A-Fa-f]{1,4}:){7}[0-9A-Fa-f]{1,4}\b|\b(?:[0-9A-Fa-f]{1,4}:){1,6}:(?:[0-9A-Fa-f]{1,4}(?::[0-9A-Fa-f]{1,4})*)?\b/g },
+  // Long runs mixing letters and digits look like keys even when their format is unknown
+  { label: 'token', pattern: /\b(?=[A-Za-z0-9_-]*\d)(?=[A-Za-z0-9_-]*[A-Za-z])[A-Za-z0-9_-]{32,}\b/g },
+];
+
+// Strips likely secrets and personal details from text that is about to leave this device
+export const redactSecrets = (input: string): Redacted => {
+  let count = 0;
+  const text = PATTERNS.reduce((text, { label, pattern }) => text.replace(pattern, (match, ...groups) => {
+    count++;
+    // Named secrets keep their `name:` prefix
+    return label === 'secret' ? `${groups[0]}[redacted ${label}]` : `[redacted ${label}]`;
+  }), input);
+  return { text, count };
+};